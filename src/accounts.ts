@@ -0,0 +1,123 @@
+/**
+ * Named account profiles
+ * Each profile has its own credentials and token, configured from one accounts file:
+ *
+ *   {
+ *     "default": "work",
+ *     "accounts": {
+ *       "work": { "credentialsPath": "work-credentials.json", "tokenPath": "work-token.json" },
+ *       "personal": { "credentialsPath": "credentials.json", "tokenPath": "personal-token.json" }
+ *     }
+ *   }
+ *
+ * Relative paths are resolved against the accounts file's directory. Without an accounts file
+ * there is a single "default" profile built from the environment.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { writeFileAtomic } from "./files.js";
+
+export const DEFAULT_ACCOUNT = "default";
+
+export interface AccountConfig {
+  credentialsPath: string;
+  tokenPath: string;
+  // User to impersonate when credentials are a service account key
+  subject?: string;
+}
+
+export interface Accounts {
+  defaultAccount: string;
+  accounts: Map<string, AccountConfig>;
+}
+
+interface AccountsFile {
+  default?: string;
+  accounts?: Record<string, Partial<AccountConfig>>;
+}
+
+const ACCOUNT_NAME = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Validate a profile name
+ */
+export function validateAccountName(name: string): string {
+  if (!ACCOUNT_NAME.test(name)) {
+    throw new Error(`Invalid account name "${name}" (use letters, digits, "-" and "_")`);
+  }
+  return name;
+}
+
+async function readAccountsFile(configPath: string): Promise<AccountsFile | null> {
+  try {
+    return JSON.parse(await fs.readFile(configPath, "utf-8")) as AccountsFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw new Error(`Could not read accounts file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Load account profiles, falling back to a single profile when there is no accounts file
+ */
+export async function loadAccounts(configPath: string, fallback: AccountConfig): Promise<Accounts> {
+  const file = await readAccountsFile(configPath);
+
+  if (!file) {
+    return {
+      defaultAccount: DEFAULT_ACCOUNT,
+      accounts: new Map([[DEFAULT_ACCOUNT, fallback]]),
+    };
+  }
+
+  const baseDir = path.dirname(configPath);
+  const accounts = new Map<string, AccountConfig>();
+
+  for (const [name, entry] of Object.entries(file.accounts || {})) {
+    validateAccountName(name);
+    if (!entry.credentialsPath || !entry.tokenPath) {
+      throw new Error(`Account "${name}" in ${configPath} needs credentialsPath and tokenPath`);
+    }
+    accounts.set(name, {
+      credentialsPath: path.resolve(baseDir, entry.credentialsPath),
+      tokenPath: path.resolve(baseDir, entry.tokenPath),
+      subject: entry.subject || undefined,
+    });
+  }
+
+  if (accounts.size === 0) {
+    throw new Error(`No accounts defined in ${configPath}`);
+  }
+
+  const defaultAccount = file.default || accounts.keys().next().value!;
+  if (!accounts.has(defaultAccount)) {
+    throw new Error(`Default account "${defaultAccount}" is not defined in ${configPath}`);
+  }
+
+  return { defaultAccount, accounts };
+}
+
+/**
+ * Add or replace one profile in the accounts file, keeping the others as written
+ */
+export async function saveAccount(configPath: string, name: string, config: AccountConfig): Promise<void> {
+  validateAccountName(name);
+
+  const file = (await readAccountsFile(configPath)) || {};
+  const baseDir = path.dirname(configPath);
+
+  file.accounts = {
+    ...file.accounts,
+    [name]: {
+      credentialsPath: path.relative(baseDir, path.resolve(config.credentialsPath)),
+      tokenPath: path.relative(baseDir, path.resolve(config.tokenPath)),
+      ...(config.subject ? { subject: config.subject } : {}),
+    },
+  };
+  file.default = file.default || name;
+
+  await writeFileAtomic(configPath, JSON.stringify(file, null, 2));
+}
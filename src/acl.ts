@@ -0,0 +1,58 @@
+/**
+ * Calendar sharing
+ * Parses who a calendar is shared with into ACL scopes, and finds and describes ACL rules
+ */
+
+import { calendar_v3 } from "googleapis";
+
+export type AclRole = "freeBusyReader" | "reader" | "writer" | "owner";
+
+export type AclScope = NonNullable<calendar_v3.Schema$AclRule["scope"]>;
+
+export const ACL_ROLES: AclRole[] = ["freeBusyReader", "reader", "writer", "owner"];
+
+const SCOPE_TYPES = ["user", "group", "domain"];
+
+/**
+ * Parse who to share with: "alice@example.com" (a user), "example.com" (everyone in a domain),
+ * "group:team@example.com" (a group) or "default" (anyone, making the calendar public)
+ */
+export function parseAclScope(value: string): AclScope {
+  const text = value.trim();
+  if (text.toLowerCase() === "default") {
+    return { type: "default" };
+  }
+
+  const prefixed = /^([a-z]+):(.+)$/i.exec(text);
+  if (prefixed && SCOPE_TYPES.includes(prefixed[1].toLowerCase())) {
+    return { type: prefixed[1].toLowerCase(), value: prefixed[2].trim() };
+  }
+
+  if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(text)) {
+    return { type: "user", value: text };
+  }
+  if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(text)) {
+    return { type: "domain", value: text };
+  }
+  throw new Error(
+    `Can't share with "${value}" (expected an email, a domain such as example.com, group:<email> or default)`
+  );
+}
+
+/**
+ * Find the rule for a scope among a calendar's ACL rules
+ */
+export function findAclRule(rules: calendar_v3.Schema$AclRule[], scope: AclScope): calendar_v3.Schema$AclRule | undefined {
+  return rules.find(rule =>
+    rule.scope?.type === scope.type &&
+    (rule.scope?.value || "").toLowerCase() === (scope.value || "").toLowerCase()
+  );
+}
+
+/**
+ * Describe a scope, e.g. "alice@example.com (user)" or "anyone (public)"
+ */
+export function describeAclScope(scope: AclScope | null | undefined): string {
+  if (!scope || scope.type === "default") return "anyone (public)";
+  return `${scope.value} (${scope.type})`;
+}
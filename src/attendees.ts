@@ -0,0 +1,86 @@
+/**
+ * Attendee helpers
+ * Notification and RSVP options, and edits to an event's guest list
+ */
+
+import { calendar_v3 } from "googleapis";
+
+export type SendUpdates = "all" | "externalOnly" | "none";
+
+export type ResponseStatus = "accepted" | "declined" | "tentative";
+
+export const SEND_UPDATES: SendUpdates[] = ["all", "externalOnly", "none"];
+
+export const RESPONSE_STATUSES: ResponseStatus[] = ["accepted", "declined", "tentative"];
+
+export interface AttendeeChanges {
+  add: string[];
+  remove: string[];
+  optional: string[];
+  required: string[];
+}
+
+function sameEmail(a: string | null | undefined, b: string): boolean {
+  return (a || "").toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Apply additions, removals and optional/required changes to a guest list.
+ * Every address that is removed or re-flagged must already be on the list (or being added).
+ */
+export function applyAttendeeChanges(
+  attendees: calendar_v3.Schema$EventAttendee[],
+  changes: AttendeeChanges
+): calendar_v3.Schema$EventAttendee[] {
+  const result = attendees.map(attendee => ({ ...attendee }));
+
+  for (const email of changes.add) {
+    if (!result.some(attendee => sameEmail(attendee.email, email))) {
+      result.push({ email });
+    }
+  }
+
+  const find = (email: string) => {
+    const attendee = result.find(candidate => sameEmail(candidate.email, email));
+    if (!attendee) {
+      throw new Error(`${email} is not an attendee of this event`);
+    }
+    return attendee;
+  };
+
+  for (const email of changes.optional) {
+    find(email).optional = true;
+  }
+  for (const email of changes.required) {
+    find(email).optional = false;
+  }
+  for (const email of changes.remove) {
+    result.splice(result.indexOf(find(email)), 1);
+  }
+
+  return result;
+}
+
+/**
+ * Format a guest list, one attendee per line
+ */
+export function formatAttendees(attendees: calendar_v3.Schema$EventAttendee[], indent: string = "   "): string {
+  let result = "";
+  for (const attendee of attendees) {
+    const flags = [
+      attendee.organizer ? "organizer" : "",
+      attendee.optional ? "optional" : "",
+      attendee.self ? "you" : "",
+    ].filter(flag => flag !== "");
+
+    result += `${indent}- ${attendee.email} (${attendee.responseStatus || "no response"})`;
+    if (flags.length > 0) {
+      result += ` [${flags.join(", ")}]`;
+    }
+    if (attendee.comment) {
+      result += ` "${attendee.comment}"`;
+    }
+    result += "\n";
+  }
+  return result;
+}
@@ -3,24 +3,150 @@
 /**
  * Google Calendar OAuth2 Authentication Setup
  * Run this script to generate the token.json file
+ *
+ * Pass --manual on a headless machine: instead of opening a browser, it prints a URL to
+ * open anywhere and asks you to paste back the address you were redirected to.
+ *
+ * Pass --account <name> to authorize a named profile. A profile missing from the accounts
+ * file is added to it, sharing the default credentials and getting its own token file.
+ *
+ * Pass --scope <list> (e.g. calendar.readonly) to request narrower access than the full
+ * calendar scope; the server must then run with the same GOOGLE_CALENDAR_SCOPES.
  */
 
 import { authenticate } from "@google-cloud/local-auth";
+import { CodeChallengeMethod, Credentials, OAuth2Client } from "google-auth-library";
 import * as fs from "fs/promises";
+import * as readline from "readline/promises";
+import * as path from "path";
+import { AccountConfig, DEFAULT_ACCOUNT, loadAccounts, saveAccount, validateAccountName } from "./accounts.js";
+import { writeFileAtomic } from "./files.js";
+import { getCliOption } from "./cli.js";
+import { parseScopes } from "./policy.js";
 
 const CREDENTIALS_PATH = process.env.GOOGLE_CALENDAR_CREDENTIALS_PATH || "./credentials.json";
 const TOKEN_PATH = process.env.GOOGLE_CALENDAR_TOKEN_PATH || "./token.json";
+const ACCOUNTS_PATH = process.env.GOOGLE_CALENDAR_ACCOUNTS_PATH || path.join(path.dirname(CREDENTIALS_PATH), "accounts.json");
 
-const SCOPES = ["https://www.googleapis.com/auth/calendar"];
+const MANUAL = process.argv.includes("--manual");
+const ACCOUNT = getCliOption("account");
+const SCOPES = parseScopes(getCliOption("scope") || process.env.GOOGLE_CALENDAR_SCOPES || "calendar");
+
+interface AuthResult {
+  clientId: string;
+  clientSecret: string;
+  tokens: Credentials;
+}
+
+/**
+ * Browser flow: local-auth opens a browser and catches the redirect on a local port
+ */
+async function browserFlow(credentialsPath: string): Promise<AuthResult> {
+  console.log("This will open a browser window for you to authorize the application.\n");
+
+  const auth = await authenticate({
+    keyfilePath: credentialsPath,
+    scopes: SCOPES,
+  });
+
+  return {
+    clientId: (auth as any)._clientId,
+    clientSecret: (auth as any)._clientSecret,
+    tokens: auth.credentials,
+  };
+}
+
+/**
+ * Pull the authorization code out of a pasted redirect URL (or accept a bare code)
+ */
+function extractCode(input: string): string {
+  const value = input.trim();
+  try {
+    const code = new URL(value).searchParams.get("code");
+    if (code) return code;
+  } catch {
+    // Not a URL; treat it as the code itself
+  }
+  if (!value) {
+    throw new Error("No authorization code was entered");
+  }
+  return value;
+}
+
+/**
+ * Manual flow for headless servers: the user authorizes in any browser and pastes the result back
+ */
+async function manualFlow(credentialsPath: string): Promise<AuthResult> {
+  const credentials = JSON.parse(await fs.readFile(credentialsPath, "utf-8"));
+  const { client_id, client_secret, redirect_uris } = credentials.installed || credentials.web;
+  const client = new OAuth2Client(client_id, client_secret, redirect_uris[0]);
+
+  const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+  const url = client.generateAuthUrl({
+    access_type: "offline",
+    prompt: "consent",
+    scope: SCOPES,
+    code_challenge_method: CodeChallengeMethod.S256,
+    code_challenge: codeChallenge,
+  });
+
+  console.log("1. Open this URL in a browser on any machine:\n");
+  console.log(`   ${url}\n`);
+  console.log("2. Approve access. The browser is then sent to a localhost address that will");
+  console.log("   probably fail to load - that's expected.");
+  console.log("3. Copy the full address from the browser's address bar and paste it below.\n");
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await rl.question("Redirect URL or code: ");
+  rl.close();
+
+  const { tokens } = await client.getToken({ code: extractCode(answer), codeVerifier });
+  return { clientId: client_id, clientSecret: client_secret, tokens };
+}
+
+/**
+ * Find the profile named by --account; unknown names get a new profile on the default credentials
+ */
+async function resolveProfile(name: string): Promise<{ config: AccountConfig; isNew: boolean }> {
+  validateAccountName(name);
+  const { accounts } = await loadAccounts(ACCOUNTS_PATH, { credentialsPath: CREDENTIALS_PATH, tokenPath: TOKEN_PATH });
+
+  const existing = accounts.get(name);
+  if (existing) {
+    return { config: existing, isNew: false };
+  }
+  return {
+    config: {
+      credentialsPath: CREDENTIALS_PATH,
+      tokenPath: path.join(path.dirname(TOKEN_PATH), `token.${name}.json`),
+    },
+    isNew: true,
+  };
+}
 
 async function main() {
   console.log("🔐 Google Calendar OAuth2 Authentication Setup\n");
 
+  let profile: { config: AccountConfig; isNew: boolean } = {
+    config: { credentialsPath: CREDENTIALS_PATH, tokenPath: TOKEN_PATH },
+    isNew: false,
+  };
+  if (ACCOUNT) {
+    try {
+      profile = await resolveProfile(ACCOUNT);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+    console.log(`👤 Account: ${ACCOUNT}${profile.isNew ? " (new)" : ""}`);
+  }
+  const { credentialsPath, tokenPath } = profile.config;
+
   // Check if credentials file exists
   try {
-    await fs.access(CREDENTIALS_PATH);
+    await fs.access(credentialsPath);
   } catch (error) {
-    console.error(`❌ Error: credentials.json not found at ${CREDENTIALS_PATH}`);
+    console.error(`❌ Error: credentials.json not found at ${credentialsPath}`);
     console.error("\nPlease follow these steps:");
     console.error("1. Go to https://console.cloud.google.com/");
     console.error("2. Create a new project or select an existing one");
@@ -31,32 +157,53 @@ async function main() {
     process.exit(1);
   }
 
-  console.log(`✅ Found credentials file at: ${CREDENTIALS_PATH}`);
+  console.log(`✅ Found credentials file at: ${credentialsPath}`);
+
+  // Service account keys authenticate on their own
+  const credentials = JSON.parse(await fs.readFile(credentialsPath, "utf-8"));
+  if (credentials.type === "service_account") {
+    console.log(`\nℹ️  This is a service account key (${credentials.client_email}); no token is needed.`);
+    console.log("Set GOOGLE_CALENDAR_SUBJECT to impersonate a user through domain-wide delegation.");
+    return;
+  }
   console.log("\nStarting OAuth2 flow...");
-  console.log("This will open a browser window for you to authorize the application.\n");
 
   try {
     // Run OAuth2 flow
-    const auth = await authenticate({
-      keyfilePath: CREDENTIALS_PATH,
-      scopes: SCOPES,
-    });
+    const { clientId, clientSecret, tokens } = MANUAL ? await manualFlow(credentialsPath) : await browserFlow(credentialsPath);
+
+    if (!tokens.refresh_token) {
+      throw new Error("Google did not return a refresh token. Remove the app's access at https://myaccount.google.com/permissions and try again.");
+    }
 
     // Save the token
-    const tokens = auth.credentials;
     const tokenData = {
       type: "authorized_user",
-      client_id: (auth as any)._clientId,
-      client_secret: (auth as any)._clientSecret,
+      client_id: clientId,
+      client_secret: clientSecret,
       refresh_token: tokens.refresh_token,
       access_token: tokens.access_token,
       expiry_date: tokens.expiry_date,
     };
 
-    await fs.writeFile(TOKEN_PATH, JSON.stringify(tokenData, null, 2));
+    await writeFileAtomic(tokenPath, JSON.stringify(tokenData, null, 2));
+
+    if (ACCOUNT && profile.isNew) {
+      // The first named profile makes the implicit default explicit, so it keeps working
+      const hasAccountsFile = await fs.access(ACCOUNTS_PATH).then(() => true, () => false);
+      if (!hasAccountsFile) {
+        await saveAccount(ACCOUNTS_PATH, DEFAULT_ACCOUNT, {
+          credentialsPath: CREDENTIALS_PATH,
+          tokenPath: TOKEN_PATH,
+          subject: process.env.GOOGLE_CALENDAR_SUBJECT || undefined,
+        });
+      }
+      await saveAccount(ACCOUNTS_PATH, ACCOUNT, profile.config);
+      console.log(`Account "${ACCOUNT}" added to: ${ACCOUNTS_PATH}`);
+    }
 
     console.log("\n✅ Authentication successful!");
-    console.log(`Token saved to: ${TOKEN_PATH}`);
+    console.log(`Token saved to: ${tokenPath}`);
     console.log("\nYou can now build and run the MCP server:");
     console.log("  npm run build");
     console.log("  docker build -t google-calendar-mcp-server .");
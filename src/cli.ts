@@ -0,0 +1,20 @@
+/**
+ * Command-line options
+ * Shared by the server and the auth script
+ */
+
+/**
+ * Read a "--name value" or "--name=value" command-line option
+ */
+export function getCliOption(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) {
+      return args[i + 1];
+    }
+    if (args[i].startsWith(`--${name}=`)) {
+      return args[i].slice(name.length + 3);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,73 @@
+/**
+ * Video conferencing
+ * Requests Google Meet links and formats an event's join details
+ */
+
+import { calendar_v3 } from "googleapis";
+import { randomUUID } from "crypto";
+
+/**
+ * Conference data asking Calendar to create a new Meet link.
+ * Only honoured when the request is sent with conferenceDataVersion: 1.
+ */
+export function meetCreateRequest(): calendar_v3.Schema$ConferenceData {
+  return {
+    createRequest: {
+      // Identifies this request so a retried call doesn't create a second conference
+      requestId: randomUUID(),
+      conferenceSolutionKey: { type: "hangoutsMeet" },
+    },
+  };
+}
+
+/**
+ * An event's existing conference, to attach to a new copy of the event (e.g. the new half of a
+ * split series) so it keeps the same join details. Only honoured with conferenceDataVersion: 1.
+ */
+export function existingConference(event: calendar_v3.Schema$Event): calendar_v3.Schema$ConferenceData | undefined {
+  const conference = event.conferenceData;
+  if (!conference?.conferenceId || !conference.conferenceSolution) return undefined;
+  return {
+    conferenceId: conference.conferenceId,
+    conferenceSolution: conference.conferenceSolution,
+    entryPoints: conference.entryPoints,
+    notes: conference.notes,
+    parameters: conference.parameters,
+    signature: conference.signature,
+  };
+}
+
+/**
+ * Format the join URL, dial-ins and other entry points of an event's conference
+ */
+export function formatConference(event: calendar_v3.Schema$Event, indent: string = "   "): string {
+  const conference = event.conferenceData;
+  if (!conference) return "";
+
+  const status = conference.createRequest?.status?.statusCode;
+  if (status === "pending") {
+    return `${indent}Conference: being created, check again with get_event\n`;
+  }
+  if (status === "failure") {
+    return `${indent}Conference: could not be created\n`;
+  }
+
+  let result = "";
+  for (const entry of conference.entryPoints || []) {
+    const pin = entry.pin || entry.passcode;
+    switch (entry.entryPointType) {
+      case "video":
+        result += `${indent}Join: ${entry.uri}\n`;
+        break;
+      case "phone":
+        result += `${indent}Dial-in: ${entry.label || entry.uri}${pin ? ` (PIN: ${pin})` : ""}\n`;
+        break;
+      case "more":
+        result += `${indent}More phone numbers: ${entry.uri}\n`;
+        break;
+      default:
+        result += `${indent}${entry.entryPointType}: ${entry.uri}\n`;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,90 @@
+/**
+ * Confirmation tokens
+ * A dry run hands out a single-use token bound to the exact tool call it previewed;
+ * repeating that call with the token carries it out. The token is only used up once the
+ * change succeeds, so a call that fails can be retried with it.
+ */
+
+import { createHash, randomUUID } from "crypto";
+
+export const CONFIRM_TOKEN_TTL_MINUTES = 10;
+
+// Arguments that don't change what a call does
+const IGNORED_ARGUMENTS = new Set(["dryRun", "confirmToken", "format"]);
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+  // Held by a confirmed call that is still running
+  claimed: boolean;
+}
+
+const pending = new Map<string, PendingConfirmation>();
+
+/**
+ * Hash a tool name and its meaningful arguments, independent of key order
+ */
+function fingerprint(tool: string, args: { [key: string]: unknown }): string {
+  const entries = Object.entries(args)
+    .filter(([key, value]) => !IGNORED_ARGUMENTS.has(key) && value !== undefined && value !== "")
+    .sort(([a], [b]) => a.localeCompare(b));
+  return createHash("sha256").update(JSON.stringify([tool, entries])).digest("hex");
+}
+
+function pruneExpired(now: number): void {
+  for (const [token, confirmation] of pending) {
+    if (confirmation.expiresAt <= now) {
+      pending.delete(token);
+    }
+  }
+}
+
+/**
+ * Issue a token that confirms this exact call
+ */
+export function issueConfirmToken(tool: string, args: { [key: string]: unknown }): string {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const token = randomUUID();
+  pending.set(token, {
+    fingerprint: fingerprint(tool, args),
+    expiresAt: now + CONFIRM_TOKEN_TTL_MINUTES * 60000,
+    claimed: false,
+  });
+  return token;
+}
+
+/**
+ * Check a token against the call being confirmed and hold it while that call runs,
+ * so the same token can't carry out a second, concurrent call
+ */
+export function claimConfirmToken(token: string, tool: string, args: { [key: string]: unknown }): void {
+  pruneExpired(Date.now());
+
+  const confirmation = pending.get(token);
+  if (!confirmation) {
+    throw new Error("confirmToken is unknown or has expired; repeat the call with dryRun to get a new one");
+  }
+  if (confirmation.fingerprint !== fingerprint(tool, args)) {
+    throw new Error(`confirmToken was issued for a different ${tool} call; repeat the previewed call with the same arguments`);
+  }
+  if (confirmation.claimed) {
+    throw new Error("confirmToken is already being used by a call that hasn't finished");
+  }
+  confirmation.claimed = true;
+}
+
+/**
+ * Use up a claimed token once its call succeeded, or hand it back so a failed call can be retried
+ */
+export function releaseConfirmToken(token: string, succeeded: boolean): void {
+  const confirmation = pending.get(token);
+  if (!confirmation) return;
+
+  if (succeeded) {
+    pending.delete(token);
+  } else {
+    confirmation.claimed = false;
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Date expressions
+ * Parses the time arguments of tools: ISO 8601 values as well as relative and natural-language
+ * expressions such as "tomorrow 3pm", "next Monday", "Dec 5 at 10:30" or "in 2 hours"
+ */
+
+import {
+  formatZoned,
+  getZonedParts,
+  parseDateTimeInZone,
+  shiftWallClock,
+  toZonedISOString,
+  zonedTimeToUtc,
+} from "./timezone.js";
+
+export interface ResolvedDate {
+  date: Date;
+  // The input named a day but no time of day, so it resolved to midnight
+  dateOnly: boolean;
+  // The input was anything other than an absolute ISO 8601 value
+  relative: boolean;
+}
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SLASH_DATE = /^\d{1,4}[/.]\d{1,2}(?:[/.]\d{1,4})?\b/;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+const UNITS: Record<string, "minute" | "hour" | "day" | "week"> = {
+  m: "minute", min: "minute", mins: "minute", minute: "minute", minutes: "minute",
+  h: "hour", hr: "hour", hrs: "hour", hour: "hour", hours: "hour",
+  d: "day", day: "day", days: "day",
+  w: "week", wk: "week", wks: "week", week: "week", weeks: "week",
+};
+
+const TIME_OF_DAY = /(?:^|\s)(?:at\s+)?(noon|midnight|(\d{1,2})(?::(\d{2}))?\s*(am|pm)|(\d{1,2}):(\d{2}))(?=\s|$)/;
+
+const EXAMPLES = `use ISO 8601 (e.g. 2025-11-27T15:00), a date such as "Dec 5" or "Dec 5 2025", ` +
+                 `or relative terms such as "tomorrow 3pm", "next Monday 9:30", "in 2 hours" or "+30m"`;
+
+/**
+ * Look up a weekday or month by full name or three-letter prefix
+ */
+function findName(names: string[], word: string): number {
+  if (word.length < 3) return -1;
+  return names.findIndex(name => name.startsWith(word));
+}
+
+function addDays(day: CalendarDay, days: number): CalendarDay {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function isValidDay(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parse "+1h30m", "in 2 days" or "3 hours ago" into a signed list of amounts
+ */
+function parseOffset(text: string): { amount: number; unit: string }[] | null {
+  let body: string;
+  let sign = 1;
+
+  if (text.startsWith("+") || text.startsWith("-")) {
+    sign = text.startsWith("-") ? -1 : 1;
+    body = text.slice(1);
+  } else if (text.startsWith("in ")) {
+    body = text.slice(3);
+  } else if (text.endsWith(" ago")) {
+    sign = -1;
+    body = text.slice(0, -4);
+  } else {
+    return null;
+  }
+
+  const parts: { amount: number; unit: string }[] = [];
+  const pattern = /(\d+)\s*([a-z]+)\s*(?:and\s*)?/g;
+  let consumed = 0;
+  for (const match of body.trim().matchAll(pattern)) {
+    if (match.index !== consumed || !UNITS[match[2]]) return null;
+    parts.push({ amount: sign * Number(match[1]), unit: UNITS[match[2]] });
+    consumed += match[0].length;
+  }
+  return parts.length > 0 && consumed === body.trim().length ? parts : null;
+}
+
+/**
+ * Parse the time-of-day part of an expression into hours and minutes
+ */
+function parseClock(match: RegExpExecArray, input: string, name: string): { hour: number; minute: number } {
+  if (match[1] === "noon") return { hour: 12, minute: 0 };
+  if (match[1] === "midnight") return { hour: 0, minute: 0 };
+
+  const twelveHour = match[4] !== undefined;
+  const hour = Number(twelveHour ? match[2] : match[5]);
+  const minute = Number(twelveHour ? match[3] || 0 : match[6]);
+
+  if (minute > 59 || (twelveHour ? hour < 1 || hour > 12 : hour > 23)) {
+    throw new Error(`${name} has an invalid time of day: "${input}"`);
+  }
+  if (!twelveHour) return { hour, minute };
+  return { hour: (hour % 12) + (match[4] === "pm" ? 12 : 0), minute };
+}
+
+/**
+ * Parse the day part of an expression ("tomorrow", "next friday", "dec 5 2025"), relative to today
+ */
+function parseDay(text: string, today: CalendarDay & { weekday: number }): CalendarDay | null {
+  if (text === "" || text === "today") return today;
+  if (text === "tomorrow") return addDays(today, 1);
+  if (text === "yesterday") return addDays(today, -1);
+
+  if (ISO_DATE.test(text)) {
+    const [year, month, day] = text.split("-").map(Number);
+    return isValidDay(year, month, day) ? { year, month, day } : null;
+  }
+
+  // "monday", "this monday" (today or later), "next monday" (after today), "last monday" (before today)
+  const weekday = /^(?:(this|next|last)\s+)?([a-z]+)$/.exec(text);
+  if (weekday) {
+    const target = findName(WEEKDAYS, weekday[2]);
+    if (target >= 0) {
+      const ahead = (target - today.weekday + 7) % 7;
+      if (weekday[1] === "next") return addDays(today, ahead === 0 ? 7 : ahead);
+      if (weekday[1] === "last") return addDays(today, ahead === 0 ? -7 : ahead - 7);
+      return addDays(today, ahead);
+    }
+  }
+
+  // "dec 5", "december 5th, 2025", "5 dec 2025"
+  const monthFirst = /^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/.exec(text);
+  const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\.?(?:,?\s+(\d{4}))?$/.exec(text);
+  const named = monthFirst
+    ? { month: monthFirst[1], day: monthFirst[2], year: monthFirst[3] }
+    : dayFirst
+      ? { month: dayFirst[2], day: dayFirst[1], year: dayFirst[3] }
+      : null;
+
+  if (named) {
+    const month = findName(MONTHS, named.month) + 1;
+    const day = Number(named.day);
+    if (month === 0) return null;
+
+    if (named.year) {
+      const year = Number(named.year);
+      return isValidDay(year, month, day) ? { year, month, day } : null;
+    }
+
+    // Without a year, the next time that date comes round (today included)
+    const thisYear = { year: today.year, month, day };
+    const passed = month < today.month || (month === today.month && day < today.day);
+    const result = passed ? { ...thisYear, year: today.year + 1 } : thisYear;
+    return isValidDay(result.year, result.month, result.day) ? result : null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a time argument to an instant.
+ *
+ * ISO 8601 strings keep their existing meaning (no offset = wall-clock time in `timeZone`).
+ * Anything else is read relative to `reference` in `timeZone`:
+ *  - "now", "in 2 hours", "3 days ago", "+1h30m" (offsets from the reference)
+ *  - "today", "tomorrow", "yesterday", optionally with a time: "tomorrow 3pm", "today at 14:30"
+ *  - weekdays: "friday"/"this friday" is the coming one (today included), "next friday" the first after today
+ *  - dates: "Dec 5", "5 December 2025", "2025-12-05 9am"; without a year, the next such date
+ *  - a time alone, "3pm" or "noon", means today
+ * Numeric dates like 03/04/2025 are rejected because the day/month order is ambiguous.
+ */
+export function parseDateExpression(
+  value: string,
+  timeZone: string,
+  name: string,
+  reference: Date = new Date()
+): ResolvedDate {
+  const input = value.trim();
+  if (input === "") {
+    throw new Error(`${name} is empty`);
+  }
+
+  if (ISO_DATE_TIME.test(input)) {
+    return {
+      date: parseDateTimeInZone(input, timeZone, name),
+      dateOnly: ISO_DATE.test(input),
+      relative: false,
+    };
+  }
+
+  const text = input.toLowerCase().replace(/\s+/g, " ").replace(/\.$/, "");
+
+  if (SLASH_DATE.test(text)) {
+    throw new Error(`${name} "${value}" is ambiguous (day/month order); use YYYY-MM-DD or a month name such as "Mar 4"`);
+  }
+
+  if (text === "now") {
+    return { date: reference, dateOnly: false, relative: true };
+  }
+
+  const offset = parseOffset(text);
+  if (offset) {
+    let date = reference;
+    for (const { amount, unit } of offset) {
+      date = unit === "minute" || unit === "hour"
+        ? new Date(date.getTime() + amount * (unit === "minute" ? 60000 : 3600000))
+        // Whole days keep the wall-clock time across DST changes
+        : shiftWallClock(date, amount * (unit === "week" ? 7 : 1) * 86400000, timeZone);
+    }
+    return { date, dateOnly: false, relative: true };
+  }
+
+  const clockMatch = TIME_OF_DAY.exec(text);
+  const dayText = clockMatch
+    ? (text.slice(0, clockMatch.index) + " " + text.slice(clockMatch.index + clockMatch[0].length)).replace(/\s+/g, " ").replace(/\s*\bat$/, "").trim()
+    : text;
+
+  const today = getZonedParts(reference, timeZone);
+  const day = parseDay(dayText, today);
+
+  if (!day) {
+    const bareHour = /^(.*?)\s*\b\d{1,2}$/.exec(dayText);
+    if (bareHour && parseDay(bareHour[1].replace(/\s*\bat$/, ""), today)) {
+      throw new Error(`${name} "${value}" has a bare hour; add am/pm or use 24-hour HH:MM`);
+    }
+    throw new Error(`${name}: could not understand "${value}"; ${EXAMPLES}`);
+  }
+
+  const clock = clockMatch ? parseClock(clockMatch, value, name) : { hour: 0, minute: 0 };
+  return {
+    date: zonedTimeToUtc({ year: day.year, month: day.month, day: day.day, ...clock }, timeZone),
+    dateOnly: !clockMatch,
+    relative: true,
+  };
+}
+
+/**
+ * Describe how a relative argument was interpreted; absolute ones need no explanation
+ */
+export function describeResolved(name: string, value: string, resolved: ResolvedDate, timeZone: string): string {
+  if (!resolved.relative) return "";
+  return `🕒 ${name} "${value}" → ${formatZoned(resolved.date, timeZone)} (${timeZone})\n`;
+}
+
+/**
+ * Resolved arguments as zoned ISO strings, for structured output
+ */
+export function resolvedData(entries: { [name: string]: ResolvedDate | undefined }, timeZone: string): { [name: string]: string } {
+  const result: { [name: string]: string } = {};
+  for (const [name, resolved] of Object.entries(entries)) {
+    if (resolved) {
+      result[name] = toZonedISOString(resolved.date, timeZone);
+    }
+  }
+  return result;
+}
+
+// === ALL-DAY EVENTS ===
+
+function parseDateString(day: string): CalendarDay {
+  const [year, month, date] = day.split("-").map(Number);
+  return { year, month, day: date };
+}
+
+function formatDay(day: CalendarDay): string {
+  return `${day.year}-${String(day.month).padStart(2, "0")}-${String(day.day).padStart(2, "0")}`;
+}
+
+/**
+ * The calendar date of an instant in a time zone, as YYYY-MM-DD
+ */
+export function toDateString(date: Date, timeZone: string): string {
+  return formatDay(getZonedParts(date, timeZone));
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDaysToDate(day: string, days: number): string {
+  return formatDay(addDays(parseDateString(day), days));
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const a = parseDateString(from);
+  const b = parseDateString(to);
+  return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86400000);
+}
+
+/**
+ * Exclusive end date of an all-day event starting on `startDay`, as the API expects it.
+ * An end that names a day is the event's last day; an offset such as "+3d" is its length;
+ * without an end the event lasts one day.
+ */
+export function allDayEnd(startDay: string, end: ResolvedDate | undefined, timeZone: string, name: string = "end"): string {
+  if (!end) {
+    return addDaysToDate(startDay, 1);
+  }
+
+  let endDay: string;
+  if (end.dateOnly) {
+    endDay = addDaysToDate(toDateString(end.date, timeZone), 1);
+  } else {
+    const parts = getZonedParts(end.date, timeZone);
+    if (parts.hour !== 0 || parts.minute !== 0) {
+      throw new Error(`${name} has a time of day but the start is a date; give both as dates for an all-day event, or both with times`);
+    }
+    endDay = toDateString(end.date, timeZone);
+  }
+
+  if (daysBetween(startDay, endDay) < 1) {
+    throw new Error(`${name} must not be before the start`);
+  }
+  return endDay;
+}
+
+/**
+ * Describe an all-day event's dates, showing the last day rather than the exclusive end
+ */
+export function describeAllDay(startDay: string, endDay: string | null | undefined): string {
+  const days = endDay ? daysBetween(startDay, endDay) : 1;
+  if (days <= 1) {
+    return `All day, ${startDay}`;
+  }
+  return `All day, ${startDay} to ${addDaysToDate(startDay, days - 1)} (${days} days)`;
+}
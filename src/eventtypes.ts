@@ -0,0 +1,187 @@
+/**
+ * Event types
+ * Out-of-office, focus time and working-location events, with the properties only they have
+ */
+
+import { calendar_v3 } from "googleapis";
+
+export type EventType = "default" | "outOfOffice" | "focusTime" | "workingLocation";
+export type AutoDeclineMode = "declineNone" | "declineAllConflictingInvitations" | "declineOnlyNewConflictingInvitations";
+export type ChatStatus = "available" | "doNotDisturb";
+export type WorkingLocationType = "homeOffice" | "officeLocation" | "customLocation";
+
+export const EVENT_TYPES: EventType[] = ["default", "outOfOffice", "focusTime", "workingLocation"];
+// Types events can be listed by; birthdays and events from Gmail can't be created through the API
+export const LISTED_EVENT_TYPES = [...EVENT_TYPES, "birthday", "fromGmail"];
+export const AUTO_DECLINE_MODES: AutoDeclineMode[] = [
+  "declineNone",
+  "declineAllConflictingInvitations",
+  "declineOnlyNewConflictingInvitations",
+];
+export const CHAT_STATUSES: ChatStatus[] = ["available", "doNotDisturb"];
+export const WORKING_LOCATION_TYPES: WorkingLocationType[] = ["homeOffice", "officeLocation", "customLocation"];
+
+// What Google Calendar itself defaults to when blocking the time
+const DEFAULT_AUTO_DECLINE: Record<string, AutoDeclineMode> = {
+  outOfOffice: "declineAllConflictingInvitations",
+  focusTime: "declineOnlyNewConflictingInvitations",
+};
+
+const DEFAULT_SUMMARIES: Record<string, string> = {
+  outOfOffice: "Out of office",
+  focusTime: "Focus time",
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  outOfOffice: "Out of office",
+  focusTime: "Focus time",
+  workingLocation: "Working location",
+  birthday: "Birthday",
+  fromGmail: "From Gmail",
+};
+
+const AUTO_DECLINE_NAMES: Record<string, string> = {
+  declineNone: "doesn't decline invitations",
+  declineAllConflictingInvitations: "declines all conflicting invitations",
+  declineOnlyNewConflictingInvitations: "declines new conflicting invitations",
+};
+
+/**
+ * Event type arguments of create_event; undefined ones take the type's defaults
+ */
+export interface EventTypeOptions {
+  eventType: EventType;
+  autoDecline?: AutoDeclineMode;
+  declineMessage: string;
+  chatStatus?: ChatStatus;
+  workingLocation?: WorkingLocationType;
+  workingLocationLabel: string;
+}
+
+/**
+ * Default title for an event of a special type, used when no summary is given
+ */
+export function defaultSummary(options: EventTypeOptions): string | undefined {
+  if (options.eventType === "workingLocation") {
+    return options.workingLocation === "homeOffice" ? "Home" : options.workingLocationLabel || "Office";
+  }
+  return DEFAULT_SUMMARIES[options.eventType];
+}
+
+/**
+ * Check whether events of a type must have start and end times; the API rejects all-day ones
+ */
+export function needsTimes(eventType: EventType): boolean {
+  return eventType === "outOfOffice" || eventType === "focusTime";
+}
+
+/**
+ * Event fields for a new event of the given type, checking the rules the API enforces for it
+ */
+export function buildEventTypeFields(options: EventTypeOptions, hasAttendees: boolean): calendar_v3.Schema$Event {
+  const { eventType } = options;
+  const autoDeclines = needsTimes(eventType);
+
+  if (!autoDeclines && (options.autoDecline || options.declineMessage)) {
+    throw new Error("autoDecline and declineMessage only apply to outOfOffice and focusTime events");
+  }
+  if (eventType !== "focusTime" && options.chatStatus) {
+    throw new Error("chatStatus only applies to focusTime events");
+  }
+  if (eventType !== "workingLocation" && (options.workingLocation || options.workingLocationLabel)) {
+    throw new Error("workingLocation and workingLocationLabel only apply to workingLocation events");
+  }
+  if (eventType === "default") {
+    return {};
+  }
+
+  if (hasAttendees) {
+    throw new Error(`${eventType} events can't have attendees`);
+  }
+
+  const fields: calendar_v3.Schema$Event = { eventType };
+
+  if (autoDeclines) {
+    const properties = {
+      autoDeclineMode: options.autoDecline || DEFAULT_AUTO_DECLINE[eventType],
+      ...(options.declineMessage ? { declineMessage: options.declineMessage } : {}),
+    };
+    if (eventType === "outOfOffice") {
+      fields.outOfOfficeProperties = properties;
+    } else {
+      fields.focusTimeProperties = { ...properties, chatStatus: options.chatStatus || "doNotDisturb" };
+    }
+  }
+
+  if (eventType === "workingLocation") {
+    const type = options.workingLocation;
+    if (!type) {
+      throw new Error(`workingLocation is required for workingLocation events (one of: ${WORKING_LOCATION_TYPES.join(", ")})`);
+    }
+    if (type === "customLocation" && !options.workingLocationLabel) {
+      throw new Error("workingLocationLabel is required for a customLocation");
+    }
+    const label = options.workingLocationLabel ? { label: options.workingLocationLabel } : {};
+    fields.workingLocationProperties = {
+      type,
+      ...(type === "homeOffice" ? { homeOffice: {} } : {}),
+      ...(type === "officeLocation" ? { officeLocation: label } : {}),
+      ...(type === "customLocation" ? { customLocation: label } : {}),
+    };
+    // The API only accepts working locations that are public and don't block time
+    fields.visibility = "public";
+    fields.transparency = "transparent";
+  }
+
+  return fields;
+}
+
+/**
+ * Describe a working location, e.g. "home", "office (Building 4)" or "Café Central"
+ */
+function describeWorkingLocation(properties: calendar_v3.Schema$EventWorkingLocationProperties): string {
+  if (properties.type === "homeOffice") return "home";
+  if (properties.type === "officeLocation") {
+    const label = properties.officeLocation?.label;
+    return label ? `office (${label})` : "office";
+  }
+  return properties.customLocation?.label || "custom location";
+}
+
+/**
+ * Describe an event's type and its properties; undefined for ordinary events
+ */
+export function describeEventType(event: calendar_v3.Schema$Event): string | undefined {
+  const type = event.eventType;
+  if (!type || type === "default") return undefined;
+
+  const details: string[] = [];
+  const decline = event.outOfOfficeProperties || event.focusTimeProperties;
+  if (event.focusTimeProperties?.chatStatus === "doNotDisturb") {
+    details.push("do not disturb");
+  }
+  if (decline?.autoDeclineMode) {
+    details.push(AUTO_DECLINE_NAMES[decline.autoDeclineMode] || decline.autoDeclineMode);
+  }
+  if (event.workingLocationProperties) {
+    details.push(describeWorkingLocation(event.workingLocationProperties));
+  }
+
+  const name = TYPE_NAMES[type] || type;
+  return details.length > 0 ? `${name} (${details.join(", ")})` : name;
+}
+
+/**
+ * Format an event's type and decline message, one per line; empty for ordinary events
+ */
+export function formatEventType(event: calendar_v3.Schema$Event, indent: string = "   "): string {
+  const type = describeEventType(event);
+  if (!type) return "";
+
+  let result = `${indent}Type: ${type}\n`;
+  const message = (event.outOfOfficeProperties || event.focusTimeProperties)?.declineMessage;
+  if (message) {
+    result += `${indent}Decline message: ${message}\n`;
+  }
+  return result;
+}
@@ -0,0 +1,29 @@
+/**
+ * File helpers
+ */
+
+import { randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+
+/**
+ * Write a file atomically: write a temp file next to it, then rename it over the original.
+ * Falls back to an in-place write where rename can't replace the target (e.g. a bind-mounted file).
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  // Unique per write, so concurrent writes to the same file can't share a temp file
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${process.pid}.${randomUUID().slice(0, 8)}.tmp`);
+
+  try {
+    await fs.writeFile(tempPath, content, { mode: 0o600 });
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => undefined);
+
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code !== "EBUSY" && code !== "EXDEV" && code !== "EACCES" && code !== "EPERM") {
+      throw error;
+    }
+    await fs.writeFile(filePath, content, { mode: 0o600 });
+  }
+}
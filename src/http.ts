@@ -0,0 +1,169 @@
+/**
+ * Streamable HTTP transport
+ * Serves MCP over HTTP so one instance can be shared by several clients
+ */
+
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "http";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface Logger {
+  info: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+  warn: (...args: unknown[]) => void;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // Bearer token clients must send; empty disables auth (loopback only)
+  authToken: string;
+  createServer: () => Server;
+  logger: Logger;
+}
+
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function isLoopback(host: string): boolean {
+  return host === "127.0.0.1" || host === "::1" || host === "localhost";
+}
+
+/**
+ * Compare the request's bearer token with the configured one in constant time
+ */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+  if (!match) return false;
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(authToken);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Read and parse a JSON request body, enforcing a size limit
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+/**
+ * Start the HTTP server; each client session gets its own MCP server and transport
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<void> {
+  const { host, port, authToken, logger } = options;
+
+  if (!authToken && !isLoopback(host)) {
+    throw new Error(`MCP_HTTP_AUTH_TOKEN must be set to listen on ${host}; only loopback addresses may run without it`);
+  }
+  if (!authToken) {
+    logger.warn("HTTP transport running without MCP_HTTP_AUTH_TOKEN; any local process can connect");
+  }
+
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+
+      if (url.pathname === "/health" && req.method === "GET") {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status: "ok", sessions: transports.size }));
+        return;
+      }
+
+      if (url.pathname !== MCP_PATH) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (authToken && !isAuthorized(req, authToken)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJsonRpcError(res, 401, -32001, "Unauthorized");
+        return;
+      }
+
+      const sessionId = req.headers["mcp-session-id"];
+      const existing = typeof sessionId === "string" ? transports.get(sessionId) : undefined;
+
+      if (req.method === "POST") {
+        let body: unknown;
+        try {
+          body = await readJsonBody(req);
+        } catch (error) {
+          sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+          return;
+        }
+
+        if (existing) {
+          await existing.handleRequest(req, res, body);
+          return;
+        }
+
+        if (sessionId || !isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+          return;
+        }
+
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            transports.set(id, transport);
+            logger.info(`HTTP session started: ${id}`);
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId && transports.delete(transport.sessionId)) {
+            logger.info(`HTTP session closed: ${transport.sessionId}`);
+          }
+        };
+
+        await options.createServer().connect(transport);
+        await transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (req.method === "GET" || req.method === "DELETE") {
+        if (!existing) {
+          sendJsonRpcError(res, 400, -32000, "Bad Request: missing or unknown session ID");
+          return;
+        }
+        await existing.handleRequest(req, res);
+        return;
+      }
+
+      res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+    } catch (error) {
+      logger.error("HTTP request failed:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+
+  logger.info(`Google Calendar MCP server running on http://${host}:${port}${MCP_PATH}`);
+}
@@ -0,0 +1,602 @@
+/**
+ * iCalendar (RFC 5545)
+ * Renders events as a VCALENDAR for export, and parses .ics files into events for the import API
+ */
+
+import { calendar_v3 } from "googleapis";
+import { randomUUID } from "crypto";
+import {
+  formatICalDateTime,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  shiftWallClock,
+  toZonedISOString,
+  zonedTimeToUtc,
+} from "./timezone.js";
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  type: string;
+  properties: ContentLine[];
+  components: Component[];
+}
+
+export interface ParsedEvent {
+  event: calendar_v3.Schema$Event;
+  // Start of the occurrence a RECURRENCE-ID override replaces; absent for ordinary events and series
+  recurrenceId?: calendar_v3.Schema$EventDateTime;
+}
+
+const PRODID = "-//google-calendar-mcp-server//EN";
+
+// Content lines are folded at 75 octets, continuation lines start with a space
+const MAX_LINE_OCTETS = 75;
+
+const PARTSTATS: Record<string, string> = {
+  needsAction: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  tentative: "TENTATIVE",
+};
+
+const RECURRENCE_PROPERTIES = ["RRULE", "EXRULE", "RDATE", "EXDATE"];
+
+// The import API keeps at most five reminder overrides, each at most four weeks before the event
+const MAX_ALARMS = 5;
+const MAX_ALARM_MINUTES = 40320;
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toUtcISOString(date: Date): string {
+  return date.toISOString().replace(".000", "");
+}
+
+// === RENDERING ===
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting a UTF-8 character
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    if (octets + size > MAX_LINE_OCTETS - (parts.length > 0 ? 1 : 0)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatParams(params: Record<string, string>): string {
+  return Object.entries(params)
+    .map(([name, value]) => `;${name}=${/[:;,]/.test(value) ? `"${value.replace(/"/g, "'")}"` : value}`)
+    .join("");
+}
+
+function contentLine(name: string, value: string, params: Record<string, string> = {}): string {
+  return `${name}${formatParams(params)}:${value}`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * DTSTART/DTEND/RECURRENCE-ID line, noting the zone so a VTIMEZONE can be added for it
+ */
+function timeLine(
+  name: string,
+  time: calendar_v3.Schema$EventDateTime,
+  fallbackZone: string,
+  zones: Set<string>
+): string {
+  if (!time.dateTime) {
+    return contentLine(name, (time.date || "").replace(/-/g, ""), { VALUE: "DATE" });
+  }
+  const zone = time.timeZone || fallbackZone;
+  zones.add(zone);
+  return contentLine(name, formatICalDateTime(new Date(time.dateTime), zone), { TZID: zone });
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+/**
+ * Find the instant a zone's offset changes between two instants a day or less apart, to the minute
+ */
+function findTransition(from: number, to: number, timeZone: string): number {
+  const before = getTimeZoneOffset(new Date(from), timeZone);
+  while (to - from > 60000) {
+    const middle = from + Math.floor((to - from) / 120000) * 60000;
+    if (getTimeZoneOffset(new Date(middle), timeZone) === before) {
+      from = middle;
+    } else {
+      to = middle;
+    }
+  }
+  return to;
+}
+
+/**
+ * VTIMEZONE for a zone, with one observance per offset change between `from` and `to`.
+ * Clients that know the IANA name use their own rules; the observances serve the rest.
+ */
+function renderTimeZone(timeZone: string, from: Date, to: Date): string[] {
+  const lines = ["BEGIN:VTIMEZONE", contentLine("TZID", timeZone), contentLine("X-LIC-LOCATION", timeZone)];
+  const day = 86400000;
+
+  let offset = getTimeZoneOffset(from, timeZone);
+  const observance = (kind: string, at: number, offsetFrom: number, offsetTo: number) => {
+    lines.push(
+      `BEGIN:${kind}`,
+      // DTSTART is the wall-clock time the observance begins, in the offset that was in effect
+      contentLine("DTSTART", formatUtc(new Date(at + offsetFrom * 60000)).replace("Z", "")),
+      contentLine("TZOFFSETFROM", formatOffset(offsetFrom)),
+      contentLine("TZOFFSETTO", formatOffset(offsetTo)),
+      `END:${kind}`
+    );
+  };
+  observance("STANDARD", from.getTime(), offset, offset);
+
+  for (let at = from.getTime(); at < to.getTime(); at += day) {
+    const next = getTimeZoneOffset(new Date(at + day), timeZone);
+    if (next !== offset) {
+      observance(next > offset ? "DAYLIGHT" : "STANDARD", findTransition(at, at + day, timeZone), offset, next);
+      offset = next;
+    }
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function renderAlarms(event: calendar_v3.Schema$Event): string[] {
+  const lines: string[] = [];
+  for (const reminder of event.reminders?.useDefault ? [] : event.reminders?.overrides || []) {
+    lines.push(
+      "BEGIN:VALARM",
+      contentLine("ACTION", reminder.method === "email" ? "EMAIL" : "DISPLAY"),
+      contentLine("TRIGGER", `-PT${reminder.minutes || 0}M`),
+      contentLine("SUMMARY", escapeText(event.summary || "Reminder")),
+      contentLine("DESCRIPTION", escapeText(event.summary || "Reminder")),
+      "END:VALARM"
+    );
+  }
+  return lines;
+}
+
+function renderEvent(
+  event: calendar_v3.Schema$Event,
+  cancelled: calendar_v3.Schema$EventDateTime[],
+  fallbackZone: string,
+  zones: Set<string>
+): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    contentLine("UID", event.iCalUID || event.id || randomUUID()),
+    contentLine("DTSTAMP", formatUtc(event.updated ? new Date(event.updated) : new Date())),
+  ];
+
+  if (event.start) lines.push(timeLine("DTSTART", event.start, fallbackZone, zones));
+  if (event.end) lines.push(timeLine("DTEND", event.end, fallbackZone, zones));
+  if (event.originalStartTime) lines.push(timeLine("RECURRENCE-ID", event.originalStartTime, fallbackZone, zones));
+
+  lines.push(...(event.recurrence || []));
+  // Deleted occurrences are kept by Google as cancelled exceptions
+  for (const time of cancelled) {
+    const line = timeLine("EXDATE", time, fallbackZone, zones);
+    if (!lines.includes(line)) lines.push(line);
+  }
+
+  if (event.summary) lines.push(contentLine("SUMMARY", escapeText(event.summary)));
+  if (event.description) lines.push(contentLine("DESCRIPTION", escapeText(event.description)));
+  if (event.location) lines.push(contentLine("LOCATION", escapeText(event.location)));
+  if (event.status) lines.push(contentLine("STATUS", event.status.toUpperCase()));
+  if (event.transparency) lines.push(contentLine("TRANSP", event.transparency.toUpperCase()));
+  if (event.visibility && event.visibility !== "default") lines.push(contentLine("CLASS", event.visibility.toUpperCase()));
+  if (event.sequence) lines.push(contentLine("SEQUENCE", String(event.sequence)));
+  if (event.created) lines.push(contentLine("CREATED", formatUtc(new Date(event.created))));
+  if (event.updated) lines.push(contentLine("LAST-MODIFIED", formatUtc(new Date(event.updated))));
+  if (event.htmlLink) lines.push(contentLine("URL", event.htmlLink));
+
+  if (event.organizer?.email) {
+    const params: Record<string, string> = event.organizer.displayName ? { CN: event.organizer.displayName } : {};
+    lines.push(contentLine("ORGANIZER", `mailto:${event.organizer.email}`, params));
+  }
+  for (const attendee of event.attendees || []) {
+    if (!attendee.email) continue;
+    const params: Record<string, string> = {};
+    if (attendee.displayName) params.CN = attendee.displayName;
+    if (attendee.resource) params.CUTYPE = "RESOURCE";
+    params.ROLE = attendee.optional ? "OPT-PARTICIPANT" : "REQ-PARTICIPANT";
+    params.PARTSTAT = PARTSTATS[attendee.responseStatus || "needsAction"] || "NEEDS-ACTION";
+    lines.push(contentLine("ATTENDEE", `mailto:${attendee.email}`, params));
+  }
+
+  lines.push(...renderAlarms(event), "END:VEVENT");
+  return lines;
+}
+
+/**
+ * Render events as an iCalendar file. Events should come from a listing with showDeleted and
+ * unexpanded recurrences: cancelled occurrences become EXDATEs of their series, other cancelled
+ * events are left out, and modified occurrences become RECURRENCE-ID overrides.
+ */
+export function renderCalendar(
+  events: calendar_v3.Schema$Event[],
+  options: { name?: string; timeZone: string; from: Date; to: Date }
+): string {
+  const cancelled = new Map<string, calendar_v3.Schema$EventDateTime[]>();
+  for (const event of events) {
+    if (event.status === "cancelled" && event.recurringEventId && event.originalStartTime) {
+      cancelled.set(event.recurringEventId, [...(cancelled.get(event.recurringEventId) || []), event.originalStartTime]);
+    }
+  }
+
+  const zones = new Set<string>();
+  const body: string[] = [];
+  let earliest = options.from.getTime();
+  for (const event of events) {
+    if (event.status === "cancelled") continue;
+    body.push(...renderEvent(event, cancelled.get(event.id || "") || [], options.timeZone, zones));
+    const start = event.start?.dateTime ? new Date(event.start.dateTime).getTime() : earliest;
+    earliest = Math.min(earliest, start);
+  }
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    contentLine("VERSION", "2.0"),
+    contentLine("PRODID", PRODID),
+    contentLine("CALSCALE", "GREGORIAN"),
+    contentLine("METHOD", "PUBLISH"),
+    ...(options.name ? [contentLine("X-WR-CALNAME", escapeText(options.name))] : []),
+    contentLine("X-WR-TIMEZONE", options.timeZone),
+  ];
+  for (const zone of [...zones].sort()) {
+    lines.push(...renderTimeZone(zone, new Date(earliest), options.to));
+  }
+  lines.push(...body, "END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// === PARSING ===
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+/**
+ * Split a content line into name, parameters and value; quoted parameter values may contain : ; ,
+ */
+function parseLine(line: string, number: number): ContentLine {
+  const params: Record<string, string> = {};
+  const name = /^[A-Za-z0-9-]+/.exec(line)?.[0];
+  if (!name) {
+    throw new Error(`Invalid iCalendar line ${number}: "${line.slice(0, 40)}"`);
+  }
+
+  let rest = line.slice(name.length);
+  while (rest.startsWith(";")) {
+    const param = /^;([A-Za-z0-9-]+)=("[^"]*"|[^";:]*)((?:,(?:"[^"]*"|[^";:,]*))*)/.exec(rest);
+    if (!param) {
+      throw new Error(`Invalid parameter on iCalendar line ${number}: "${line.slice(0, 40)}"`);
+    }
+    params[param[1].toUpperCase()] = (param[2] + param[3]).replace(/"/g, "");
+    rest = rest.slice(param[0].length);
+  }
+  if (!rest.startsWith(":")) {
+    throw new Error(`Invalid iCalendar line ${number}: "${line.slice(0, 40)}"`);
+  }
+
+  return { name: name.toUpperCase(), params, value: rest.slice(1) };
+}
+
+/**
+ * Parse iCalendar text into its component tree, returning the VCALENDAR
+ */
+function parseComponents(text: string): Component {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const lines = text.replace(/^﻿/, "").replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+  const root: Component = { type: "", properties: [], components: [] };
+  const stack: Component[] = [root];
+
+  lines.forEach((raw, index) => {
+    if (raw.trim() === "") return;
+    const line = parseLine(raw, index + 1);
+    const current = stack[stack.length - 1];
+
+    if (line.name === "BEGIN") {
+      const component: Component = { type: line.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (line.name === "END") {
+      if (stack.length === 1 || current.type !== line.value.trim().toUpperCase()) {
+        throw new Error(`Unexpected END:${line.value} on iCalendar line ${index + 1}`);
+      }
+      stack.pop();
+    } else {
+      current.properties.push(line);
+    }
+  });
+
+  if (stack.length > 1) {
+    throw new Error(`iCalendar data ends inside ${stack[stack.length - 1].type}`);
+  }
+  const calendar = root.components.find(component => component.type === "VCALENDAR");
+  if (!calendar) {
+    throw new Error("Not iCalendar data: no BEGIN:VCALENDAR found");
+  }
+  return calendar;
+}
+
+function propertyOf(component: Component, name: string): ContentLine | undefined {
+  return component.properties.find(property => property.name === name);
+}
+
+function textOf(component: Component, name: string): string | undefined {
+  const property = propertyOf(component, name);
+  return property ? unescapeText(property.value) : undefined;
+}
+
+/**
+ * Map the TZIDs of a file to IANA zones: the TZID itself, the VTIMEZONE's X-LIC-LOCATION,
+ * or the IANA name at the end of a prefixed ID like "/mozilla.org/20050126_1/Europe/Berlin"
+ */
+function resolveZones(calendar: Component): Map<string, string> {
+  const zones = new Map<string, string>();
+  for (const component of calendar.components.filter(child => child.type === "VTIMEZONE")) {
+    const tzid = propertyOf(component, "TZID")?.value;
+    const location = propertyOf(component, "X-LIC-LOCATION")?.value;
+    if (tzid && location && isValidTimeZone(location)) {
+      zones.set(tzid, location);
+    }
+  }
+  return zones;
+}
+
+function toZone(tzid: string, zones: Map<string, string>): string | undefined {
+  if (isValidTimeZone(tzid)) return tzid;
+  if (zones.has(tzid)) return zones.get(tzid);
+  const segments = tzid.split("/");
+  for (let count = 3; count >= 1; count--) {
+    const candidate = segments.slice(-count).join("/");
+    if (segments.length > count && isValidTimeZone(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Read a DTSTART/DTEND/RECURRENCE-ID value. Floating times and unknown TZIDs use `fallbackZone`.
+ */
+function parseTime(
+  property: ContentLine,
+  zones: Map<string, string>,
+  fallbackZone: string,
+  warnings: Set<string>
+): calendar_v3.Schema$EventDateTime {
+  const value = property.value.trim();
+
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (date || property.params.VALUE === "DATE") {
+    if (!date) throw new Error(`Invalid ${property.name} date: "${value}"`);
+    return { date: `${date[1]}-${date[2]}-${date[3]}` };
+  }
+
+  const time = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/i.exec(value);
+  if (!time) {
+    throw new Error(`Invalid ${property.name} value: "${value}"`);
+  }
+  const [year, month, day, hour, minute, second] = time.slice(1, 7).map(Number);
+  if (time[7]) {
+    return { dateTime: toUtcISOString(new Date(Date.UTC(year, month - 1, day, hour, minute, second))) };
+  }
+
+  let zone = fallbackZone;
+  if (property.params.TZID) {
+    const resolved = toZone(property.params.TZID, zones);
+    if (resolved) {
+      zone = resolved;
+    } else {
+      warnings.add(`Unknown time zone "${property.params.TZID}", read as ${fallbackZone}`);
+    }
+  }
+  const instant = zonedTimeToUtc({ year, month, day, hour, minute, second }, zone);
+  return { dateTime: toZonedISOString(instant, zone), timeZone: zone };
+}
+
+/**
+ * Apply an RFC 5545 duration such as PT1H30M or P2D to a start
+ */
+function addDuration(start: calendar_v3.Schema$EventDateTime, duration: string): calendar_v3.Schema$EventDateTime {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(duration.trim());
+  if (!match) {
+    throw new Error(`Invalid DURATION: "${duration}"`);
+  }
+  const sign = match[1] === "-" ? -1 : 1;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part || 0));
+
+  if (start.date) {
+    const end = new Date(`${start.date}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + sign * (weeks * 7 + days));
+    return { date: end.toISOString().slice(0, 10) };
+  }
+
+  const zone = start.timeZone || "UTC";
+  const ms = sign * ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  const end = shiftWallClock(new Date(start.dateTime!), ms, zone);
+  return start.timeZone ? { dateTime: toZonedISOString(end, zone), timeZone: zone } : { dateTime: toUtcISOString(end) };
+}
+
+/**
+ * Rebuild a recurrence line, pointing any TZID at the IANA zone it resolves to
+ */
+function recurrenceLine(property: ContentLine, zones: Map<string, string>): string {
+  const params = { ...property.params };
+  if (params.TZID) {
+    params.TZID = toZone(params.TZID, zones) || params.TZID;
+  }
+  return contentLine(property.name, property.value, params);
+}
+
+function parseAddress(value: string): string {
+  return value.replace(/^mailto:/i, "").trim();
+}
+
+function parseAttendee(property: ContentLine): calendar_v3.Schema$EventAttendee {
+  const status = Object.keys(PARTSTATS).find(key => PARTSTATS[key] === (property.params.PARTSTAT || "").toUpperCase());
+  const attendee: calendar_v3.Schema$EventAttendee = { email: parseAddress(property.value) };
+  if (property.params.CN) attendee.displayName = property.params.CN;
+  if ((property.params.ROLE || "").toUpperCase() === "OPT-PARTICIPANT") attendee.optional = true;
+  if (status) attendee.responseStatus = status;
+  return attendee;
+}
+
+/**
+ * Reminders from VALARMs that trigger a fixed time before (or at) the start; any others can't be
+ * expressed as Google reminders and are reported in `warnings`
+ */
+function parseAlarms(component: Component, warnings: Set<string>): calendar_v3.Schema$Event["reminders"] | undefined {
+  const overrides: { method: string; minutes: number }[] = [];
+  for (const alarm of component.components.filter(child => child.type === "VALARM")) {
+    const trigger = propertyOf(alarm, "TRIGGER");
+    const match = trigger && !trigger.params.VALUE && trigger.params.RELATED !== "END"
+      ? /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i.exec(trigger.value.trim())
+      : null;
+    if (!match) {
+      warnings.add("Alarms at a fixed date or relative to the end of an event were skipped");
+      continue;
+    }
+    const [weeks, days, hours, minutes, seconds] = match.slice(2, 7).map(part => Number(part || 0));
+    const total = ((weeks * 7 + days) * 24 + hours) * 60 + minutes + Math.ceil(seconds / 60);
+    if (match[1] !== "-" && total > 0) {
+      warnings.add("Alarms after the start of an event were skipped");
+      continue;
+    }
+    if (total > MAX_ALARM_MINUTES) {
+      warnings.add("Alarms more than four weeks before an event were skipped");
+      continue;
+    }
+    const method = (propertyOf(alarm, "ACTION")?.value || "").toUpperCase() === "EMAIL" ? "email" : "popup";
+    overrides.push({ method, minutes: total });
+  }
+  if (overrides.length > MAX_ALARMS) {
+    warnings.add(`Events with more than ${MAX_ALARMS} alarms kept only the first ${MAX_ALARMS}`);
+  }
+  return overrides.length > 0 ? { useDefault: false, overrides: overrides.slice(0, MAX_ALARMS) } : undefined;
+}
+
+function parseEvent(
+  component: Component,
+  zones: Map<string, string>,
+  fallbackZone: string,
+  warnings: Set<string>
+): ParsedEvent {
+  const dtstart = propertyOf(component, "DTSTART");
+  if (!dtstart) {
+    throw new Error(`Event "${textOf(component, "SUMMARY") || "(untitled)"}" has no DTSTART`);
+  }
+
+  const start = parseTime(dtstart, zones, fallbackZone, warnings);
+  const dtend = propertyOf(component, "DTEND");
+  const duration = propertyOf(component, "DURATION");
+  // Without DTEND or DURATION, an all-day event lasts a day and a timed one has no length
+  const end = dtend
+    ? parseTime(dtend, zones, fallbackZone, warnings)
+    : addDuration(start, duration ? duration.value : start.date ? "P1D" : "PT0S");
+
+  const event: calendar_v3.Schema$Event = { start, end };
+
+  const uid = propertyOf(component, "UID")?.value.trim();
+  if (uid) {
+    event.iCalUID = uid;
+  } else {
+    event.iCalUID = `${randomUUID()}@google-calendar-mcp-server`;
+    warnings.add("Events without a UID were given new ones, so importing the file again duplicates them");
+  }
+
+  const summary = textOf(component, "SUMMARY");
+  const description = textOf(component, "DESCRIPTION");
+  const location = textOf(component, "LOCATION");
+  if (summary) event.summary = summary;
+  if (description) event.description = description;
+  if (location) event.location = location;
+
+  const status = (propertyOf(component, "STATUS")?.value || "").toLowerCase();
+  if (["confirmed", "tentative", "cancelled"].includes(status)) event.status = status;
+  const transparency = (propertyOf(component, "TRANSP")?.value || "").toLowerCase();
+  if (["opaque", "transparent"].includes(transparency)) event.transparency = transparency;
+  const visibility = (propertyOf(component, "CLASS")?.value || "").toLowerCase();
+  if (["public", "private", "confidential"].includes(visibility)) event.visibility = visibility;
+  const sequence = Number(propertyOf(component, "SEQUENCE")?.value);
+  if (Number.isInteger(sequence) && sequence > 0) event.sequence = sequence;
+
+  const organizer = propertyOf(component, "ORGANIZER");
+  if (organizer) {
+    event.organizer = { email: parseAddress(organizer.value), ...(organizer.params.CN ? { displayName: organizer.params.CN } : {}) };
+  }
+  const attendees = component.properties.filter(property => property.name === "ATTENDEE").map(parseAttendee);
+  if (attendees.length > 0) event.attendees = attendees;
+
+  const recurrence = component.properties
+    .filter(property => RECURRENCE_PROPERTIES.includes(property.name))
+    .map(property => recurrenceLine(property, zones));
+  if (recurrence.length > 0) {
+    event.recurrence = recurrence;
+    // The API needs a zone to expand a series; UTC start times are expanded in UTC
+    for (const time of [start, end]) {
+      if (time.dateTime && !time.timeZone) time.timeZone = "UTC";
+    }
+  }
+
+  const reminders = parseAlarms(component, warnings);
+  if (reminders) event.reminders = reminders;
+
+  const recurrenceId = propertyOf(component, "RECURRENCE-ID");
+  return {
+    event,
+    recurrenceId: recurrenceId ? parseTime(recurrenceId, zones, fallbackZone, warnings) : undefined,
+  };
+}
+
+/**
+ * Parse the VEVENTs of an iCalendar file into events for the import API.
+ * Times without a zone (and in zones that can't be identified) are read in `fallbackZone`.
+ */
+export function parseICalendar(text: string, fallbackZone: string): { events: ParsedEvent[]; warnings: string[] } {
+  const calendar = parseComponents(text);
+  const zones = resolveZones(calendar);
+  const warnings = new Set<string>();
+
+  const events = calendar.components
+    .filter(component => component.type === "VEVENT")
+    .map(component => parseEvent(component, zones, fallbackZone, warnings));
+
+  return { events, warnings: [...warnings] };
+}
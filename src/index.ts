@@ -8,17 +8,163 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequest,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequest,
+  SubscribeRequestSchema,
   Tool,
+  UnsubscribeRequest,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { google } from "googleapis";
-import { OAuth2Client } from "google-auth-library";
+import { google, calendar_v3 } from "googleapis";
+import { Credentials, OAuth2Client } from "google-auth-library";
 import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  formatZoned,
+  getZonedParts,
+  parseTimeOfDay,
+  shiftWallClock,
+  toZonedISOString,
+  validateTimeZone,
+  wallClockDifference,
+  zonedTimeToUtc,
+} from "./timezone.js";
+import {
+  buildRecurrence,
+  getCount,
+  getUntilBefore,
+  RECURRENCE_SCOPES,
+  RecurrenceScope,
+  withCount,
+  withUntil,
+} from "./recurrence.js";
+import {
+  ACL_RULE_SCHEMA,
+  CALENDAR_SCHEMA,
+  EVENT_SCHEMA,
+  arraySchema,
+  EventSummary,
+  objectSchema,
+  toAclRuleSummary,
+  toCalendarSummary,
+  toEventSummary,
+  ToolResult,
+} from "./output.js";
+import { loadSyncTokens, saveSyncTokens, syncCalendar, SyncTokens } from "./sync.js";
+import { startHttpServer } from "./http.js";
+import { getCliOption } from "./cli.js";
+import { writeFileAtomic } from "./files.js";
+import { existingConference, formatConference, meetCreateRequest } from "./conference.js";
+import {
+  addDaysToDate,
+  allDayEnd,
+  daysBetween,
+  describeAllDay,
+  describeResolved,
+  parseDateExpression,
+  resolvedData,
+  ResolvedDate,
+  toDateString,
+} from "./dates.js";
+import { describeNotifications, diffCalendars, diffEvents, FieldChange, formatChanges } from "./preview.js";
+import { parseICalendar, ParsedEvent, renderCalendar } from "./ics.js";
+import { ACL_ROLES, AclScope, describeAclScope, findAclRule, parseAclScope } from "./acl.js";
+import {
+  AUTO_DECLINE_MODES,
+  buildEventTypeFields,
+  CHAT_STATUSES,
+  defaultSummary,
+  EVENT_TYPES,
+  EventType,
+  EventTypeOptions,
+  formatEventType,
+  LISTED_EVENT_TYPES,
+  needsTimes,
+  WORKING_LOCATION_TYPES,
+} from "./eventtypes.js";
+import { CONFIRM_TOKEN_TTL_MINUTES, claimConfirmToken, issueConfirmToken, releaseConfirmToken } from "./confirm.js";
+import {
+  appendEntry,
+  EventOperation,
+  JournalEntry,
+  loadJournal,
+  MAX_JOURNAL_ENTRIES,
+  saveJournal,
+} from "./journal.js";
+import {
+  canManageCalendars,
+  canReadCalendars,
+  checkCalendarAllowed,
+  hasCalendarRules,
+  DEFAULT_POLICY,
+  isCalendarAllowed,
+  isReadOnlyScopes,
+  isToolAllowed,
+  loadPolicy,
+  parseScopes,
+  Policy,
+} from "./policy.js";
+import {
+  applyAttendeeChanges,
+  formatAttendees,
+  RESPONSE_STATUSES,
+  ResponseStatus,
+  SEND_UPDATES,
+  SendUpdates,
+} from "./attendees.js";
+import {
+  boolean,
+  enumeration,
+  input,
+  InputSchema,
+  integer,
+  list,
+  JsonObject,
+  object,
+  objectList,
+  optional,
+  string,
+  ValidationError,
+  ValidationIssue,
+} from "./schema.js";
+import {
+  buildEventOptions,
+  EVENT_COLOR_NAMES,
+  EventOptions,
+  formatEventOptions,
+  TRANSPARENCIES,
+  VISIBILITIES,
+} from "./options.js";
+import { AccountConfig, DEFAULT_ACCOUNT, loadAccounts, Accounts } from "./accounts.js";
 
 // Configuration
 const CREDENTIALS_PATH = process.env.GOOGLE_CALENDAR_CREDENTIALS_PATH || "/app/credentials/credentials.json";
 const TOKEN_PATH = process.env.GOOGLE_CALENDAR_TOKEN_PATH || "/app/credentials/token.json";
+// User to impersonate when the credentials file is a service account key (domain-wide delegation)
+const SUBJECT = process.env.GOOGLE_CALENDAR_SUBJECT || "";
+// Optional named profiles; without this file the paths above form a single "default" account
+const ACCOUNTS_PATH = process.env.GOOGLE_CALENDAR_ACCOUNTS_PATH || path.join(path.dirname(CREDENTIALS_PATH), "accounts.json");
+// Narrower scopes such as "calendar.readonly" limit what the service account may do
+const SCOPES = parseScopes(process.env.GOOGLE_CALENDAR_SCOPES || "calendar");
+const POLICY_PATH = process.env.GOOGLE_CALENDAR_POLICY_PATH || path.join(path.dirname(CREDENTIALS_PATH), "policy.json");
+const SYNC_STATE_PATH = process.env.GOOGLE_CALENDAR_SYNC_STATE_PATH || path.join(path.dirname(TOKEN_PATH), "sync-state.json");
+const SYNC_POLL_SECONDS = parseInt(process.env.GOOGLE_CALENDAR_SYNC_POLL_SECONDS || "0") || 0;
+const JOURNAL_PATH = process.env.GOOGLE_CALENDAR_JOURNAL_PATH || path.join(path.dirname(TOKEN_PATH), "journal.json");
+// In safe mode every change is previewed first and needs the returned confirmToken to go ahead
+const SAFE_MODE = process.env.GOOGLE_CALENDAR_SAFE_MODE === "true";
+
+// Transport configuration - CLI flags take precedence over environment variables
+const TRANSPORT = getCliOption("transport") || process.env.MCP_TRANSPORT || "stdio";
+const HTTP_HOST = getCliOption("host") || process.env.MCP_HTTP_HOST || "127.0.0.1";
+const HTTP_PORT = parseInt(getCliOption("port") || process.env.MCP_HTTP_PORT || "3000") || 3000;
+const HTTP_AUTH_TOKEN = process.env.MCP_HTTP_AUTH_TOKEN || "";
 
 // Logging configuration - log to stderr
 const logger = {
@@ -39,6 +185,16 @@ function formatError(error: unknown): string {
   return `❌ Error: ${String(error)}`;
 }
 
+/**
+ * Wrap an error as a failed tool result
+ */
+function errorResult(error: unknown, account: string = ""): ToolResult {
+  if (isInvalidGrant(error)) {
+    return { text: handleInvalidGrant(account), isError: true };
+  }
+  return { text: formatError(error), isError: true };
+}
+
 /**
  * Validate required parameter
  */
@@ -52,42 +208,569 @@ function validateRequired(value: string | undefined, name: string): string {
 
 // === GOOGLE CALENDAR AUTH ===
 
-let auth: OAuth2Client | null = null;
+interface AccountAuth {
+  client: OAuth2Client;
+  mode: "oauth" | "service_account";
+  config: AccountConfig;
+}
+
+let accounts: Accounts | null = null;
+const authClients = new Map<string, AccountAuth>();
+
+/**
+ * Load the account profiles once
+ */
+async function getAccounts(): Promise<Accounts> {
+  if (!accounts) {
+    accounts = await loadAccounts(ACCOUNTS_PATH, {
+      credentialsPath: CREDENTIALS_PATH,
+      tokenPath: TOKEN_PATH,
+      subject: SUBJECT || undefined,
+    });
+  }
+  return accounts;
+}
+
+/**
+ * Resolve an account argument (empty for the default) to its profile
+ */
+async function resolveAccount(account: string): Promise<{ name: string; config: AccountConfig }> {
+  const { defaultAccount, accounts } = await getAccounts();
+  const name = account || defaultAccount;
+  const config = accounts.get(name);
+
+  if (!config) {
+    throw new Error(`Unknown account "${name}". Available accounts: ${[...accounts.keys()].join(", ")}`);
+  }
+  return { name, config };
+}
+
+/**
+ * Check whether a credentials file holds a service account key rather than an OAuth client
+ */
+function isServiceAccount(credentials: { type?: string }): boolean {
+  return credentials.type === "service_account";
+}
+
+/**
+ * Check whether an error means the refresh token was revoked or expired
+ */
+function isInvalidGrant(error: unknown): boolean {
+  const e = error as { message?: string; response?: { data?: { error?: string } } } | null;
+  return e?.response?.data?.error === "invalid_grant" || !!e?.message?.includes("invalid_grant");
+}
+
+/**
+ * Merge refreshed tokens into the token file so restarts don't start from a stale access token
+ */
+async function persistTokens(tokenPath: string, tokens: Credentials): Promise<void> {
+  const current = JSON.parse(await fs.readFile(tokenPath, "utf-8"));
+  const updated = { ...current };
+
+  for (const [key, value] of Object.entries(tokens)) {
+    if (value !== null && value !== undefined) {
+      updated[key] = value;
+    }
+  }
+
+  await writeFileAtomic(tokenPath, JSON.stringify(updated, null, 2));
+  logger.info(`Refreshed token saved to ${tokenPath}`);
+}
 
 /**
- * Initialize Google Calendar API authentication
+ * Initialize Google Calendar API authentication for an account
  */
-async function initializeAuth(): Promise<OAuth2Client> {
-  if (auth) return auth;
+async function initializeAuth(account: string = ""): Promise<AccountAuth> {
+  const { name, config } = await resolveAccount(account);
+  const cached = authClients.get(name);
+  if (cached) return cached;
 
   try {
     // Load credentials
-    const credentialsContent = await fs.readFile(CREDENTIALS_PATH, "utf-8");
+    const credentialsContent = await fs.readFile(config.credentialsPath, "utf-8");
     const credentials = JSON.parse(credentialsContent);
 
+    // Service accounts sign their own tokens; no token file involved
+    if (isServiceAccount(credentials)) {
+      const client = new google.auth.JWT({
+        email: credentials.client_email,
+        key: credentials.private_key,
+        scopes: SCOPES,
+        subject: config.subject,
+      });
+      const entry: AccountAuth = { client, mode: "service_account", config };
+      authClients.set(name, entry);
+      logger.info(`Google Calendar authentication initialized for ${name} with service account ${credentials.client_email}` +
+                  (config.subject ? ` acting as ${config.subject}` : ""));
+      return entry;
+    }
+
     // Load token
-    const tokenContent = await fs.readFile(TOKEN_PATH, "utf-8");
+    const tokenContent = await fs.readFile(config.tokenPath, "utf-8");
     const token = JSON.parse(tokenContent);
 
     // Create OAuth2 client
     const { client_secret, client_id, redirect_uris } = credentials.installed || credentials.web;
-    auth = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
-    auth.setCredentials(token);
+    const client = new google.auth.OAuth2(client_id, client_secret, redirect_uris[0]);
+    client.setCredentials(token);
 
-    logger.info("Google Calendar authentication initialized");
-    return auth;
+    // The library refreshes access tokens on its own; write them back as they arrive
+    client.on("tokens", (tokens) => {
+      persistTokens(config.tokenPath, tokens).catch((error) => {
+        logger.warn(`Could not save refreshed token to ${config.tokenPath}:`, error);
+      });
+    });
+
+    const entry: AccountAuth = { client, mode: "oauth", config };
+    authClients.set(name, entry);
+    logger.info(`Google Calendar authentication initialized for ${name}`);
+    return entry;
   } catch (error) {
-    logger.error("Failed to initialize auth:", error);
-    throw new Error("Failed to initialize Google Calendar authentication. Make sure credentials and token files are properly set up.");
+    logger.error(`Failed to initialize auth for ${name}:`, error);
+    const reason = error instanceof Error ? ` (${error.message})` : "";
+    throw new Error(`Failed to initialize Google Calendar authentication for account "${name}"${reason}. Make sure credentials and token files are properly set up.`);
+  }
+}
+
+/**
+ * Explain an invalid_grant error and drop the cached client, so a re-authorized token is read on the next call
+ */
+function handleInvalidGrant(account: string): string {
+  const name = account || accounts?.defaultAccount || DEFAULT_ACCOUNT;
+  const entry = authClients.get(name);
+  authClients.delete(name);
+  logger.warn(`Authorization rejected for ${name} (invalid_grant); waiting for re-authorization`);
+
+  if (entry?.mode === "service_account") {
+    return `❌ Error: The service account for "${name}" was refused a token (invalid_grant).\n` +
+           `Check that domain-wide delegation is enabled for its client ID with the Calendar scope` +
+           (entry.config.subject ? `, and that ${entry.config.subject} is a user in the Workspace domain.` : ".");
   }
+
+  const command = name === DEFAULT_ACCOUNT ? "npm run auth" : `npm run auth -- --account ${name}`;
+  return `❌ Error: Google authorization for "${name}" has expired or been revoked (invalid_grant).\n` +
+         `Re-run \`${command}\` (add \`--manual\` on a machine without a browser) ` +
+         `to write a new token${entry ? ` to ${entry.config.tokenPath}` : ""}. ` +
+         `The server picks it up on the next call, no restart needed.`;
 }
 
 /**
  * Get authenticated Calendar API client
  */
-async function getCalendar() {
-  const authClient = await initializeAuth();
-  return google.calendar({ version: "v3", auth: authClient });
+async function getCalendar(account: string = "") {
+  const { client } = await initializeAuth(account);
+  return google.calendar({ version: "v3", auth: client });
+}
+
+/**
+ * Look up a calendar's name and time zone. An events listing carries both, so it stands in
+ * for calendars.get when only an events scope was granted.
+ */
+async function getCalendarInfo(
+  calendar: calendar_v3.Calendar,
+  calendarId: string
+): Promise<{ summary: string; timeZone: string }> {
+  const response = canReadCalendars(SCOPES)
+    ? await calendar.calendars.get({ calendarId })
+    : await calendar.events.list({ calendarId, maxResults: 1 });
+  return { summary: response.data.summary || calendarId, timeZone: response.data.timeZone || "UTC" };
+}
+
+/**
+ * Look up a calendar's own time zone
+ */
+async function getCalendarTimeZone(
+  calendar: calendar_v3.Calendar,
+  calendarId: string
+): Promise<string> {
+  return (await getCalendarInfo(calendar, calendarId)).timeZone;
+}
+
+/**
+ * Build an event start/end that keeps the wall-clock time in the given zone
+ */
+function toEventDateTime(date: Date, timeZone: string): calendar_v3.Schema$EventDateTime {
+  // date is cleared explicitly since a patch merges into the existing start/end
+  return {
+    dateTime: toZonedISOString(date, timeZone),
+    timeZone,
+    date: null,
+  };
+}
+
+/**
+ * Build an all-day event start/end from a YYYY-MM-DD date
+ */
+function toEventDate(day: string): calendar_v3.Schema$EventDateTime {
+  return {
+    date: day,
+    dateTime: null,
+    timeZone: null,
+  };
+}
+
+function isAllDay(event: calendar_v3.Schema$Event): boolean {
+  return !event.start?.dateTime && !!event.start?.date;
+}
+
+/**
+ * Start and end of a new event: all-day when the start names a day without a time, timed otherwise
+ */
+function newEventTimes(
+  startAt: ResolvedDate,
+  endAt: ResolvedDate | undefined,
+  timeZone: string
+): { start: calendar_v3.Schema$EventDateTime; end: calendar_v3.Schema$EventDateTime } {
+  if (startAt.dateOnly) {
+    const day = toDateString(startAt.date, timeZone);
+    return { start: toEventDate(day), end: toEventDate(allDayEnd(day, endAt, timeZone)) };
+  }
+  if (!endAt) {
+    throw new Error("end is required unless start is a date without a time (an all-day event)");
+  }
+  return { start: toEventDateTime(startAt.date, timeZone), end: toEventDateTime(endAt.date, timeZone) };
+}
+
+/**
+ * Start and end of an updated event. A new start without a time makes the event all-day and one
+ * with a time makes it timed; an all-day event moved without a new end keeps its number of days.
+ */
+function updatedEventTimes(
+  event: calendar_v3.Schema$Event,
+  startAt: ResolvedDate | undefined,
+  endAt: ResolvedDate | undefined,
+  timeZone: string
+): { start?: calendar_v3.Schema$EventDateTime; end?: calendar_v3.Schema$EventDateTime } {
+  if (!startAt && !endAt) {
+    return { start: event.start, end: event.end };
+  }
+
+  const wasAllDay = isAllDay(event);
+  if (startAt ? startAt.dateOnly : wasAllDay) {
+    const day = startAt ? toDateString(startAt.date, timeZone) : event.start!.date!;
+    const days = wasAllDay && event.end?.date ? Math.max(daysBetween(event.start!.date!, event.end.date), 1) : 1;
+    const endDay = endAt ? allDayEnd(day, endAt, timeZone) : addDaysToDate(day, days);
+    return { start: toEventDate(day), end: toEventDate(endDay) };
+  }
+
+  if (wasAllDay && !endAt) {
+    throw new Error("end is required when giving an all-day event a start time");
+  }
+  return {
+    start: startAt ? toEventDateTime(startAt.date, timeZone) : event.start,
+    end: endAt ? toEventDateTime(endAt.date, timeZone) : event.end,
+  };
+}
+
+/**
+ * Start and end as the API returns them, or one labelled line for an all-day event
+ */
+function formatEventDates(event: calendar_v3.Schema$Event, indent: string = "   "): string {
+  if (isAllDay(event)) {
+    return `${indent}When: ${describeAllDay(event.start!.date!, event.end?.date)}\n`;
+  }
+  return `${indent}Start: ${event.start?.dateTime}\n${indent}End: ${event.end?.dateTime}\n`;
+}
+
+/**
+ * Describe an event's start and end in local time and in UTC
+ */
+function formatEventTimes(event: calendar_v3.Schema$Event, fallbackZone: string): string {
+  if (isAllDay(event)) {
+    return formatEventDates(event);
+  }
+
+  let result = "";
+
+  for (const [label, time] of [["Start", event.start], ["End", event.end]] as const) {
+    if (time?.dateTime) {
+      const zone = time.timeZone || fallbackZone;
+      const date = new Date(time.dateTime);
+      result += `   ${label}: ${toZonedISOString(date, zone)} (${zone})\n`;
+      result += `   ${label} (UTC): ${date.toISOString()}\n`;
+    } else {
+      result += `   ${label}: ${time?.date}\n`;
+    }
+  }
+
+  return result;
+}
+
+// === DRY RUN ===
+
+/**
+ * Best guess at the calendar owner's address, used to tell internal from external guests
+ */
+function selfEmailOf(event: calendar_v3.Schema$Event, calendarId: string): string {
+  return event.attendees?.find(attendee => attendee.self)?.email ||
+         (event.organizer?.self ? event.organizer.email : "") ||
+         (calendarId.includes("@") ? calendarId : "");
+}
+
+/**
+ * Result of a dry run: what would change and who would hear about it
+ */
+function dryRunResult(
+  action: string,
+  changes: FieldChange[],
+  notifications: string,
+  data: { [key: string]: unknown }
+): ToolResult {
+  return {
+    text: `🔍 Dry run: would ${action}. Nothing has been changed.\n\n` +
+          formatChanges(changes) +
+          `\n📨 ${notifications}`,
+    data: { ...data, dryRun: true, changes, notifications },
+  };
+}
+
+// === PARTIAL UPDATES ===
+
+// Fields update_event can clear, with the patch that clears each
+const CLEARED_VALUES: { [field: string]: { [key: string]: unknown } } = {
+  description: { description: null },
+  location: { location: null },
+  attendees: { attendees: [] },
+  conference: { conferenceData: null },
+  reminders: { reminders: { useDefault: true, overrides: [] } },
+  color: { colorId: null },
+};
+
+const CLEARABLE_FIELDS = Object.keys(CLEARED_VALUES);
+
+/**
+ * Validate the fields to clear
+ */
+function parseClearFields(fields: string[]): string[] {
+  for (const field of fields) {
+    if (!CLEARABLE_FIELDS.includes(field)) {
+      throw new Error(`clear may only contain: ${CLEARABLE_FIELDS.join(", ")} (got "${field}")`);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Request options that make a write fail if the event no longer has this ETag
+ */
+function ifMatch(etag: string | null | undefined) {
+  return etag ? { headers: { "If-Match": etag } } : {};
+}
+
+function isPreconditionFailed(error: unknown): boolean {
+  const e = error as { code?: unknown; response?: { status?: number } } | null;
+  return (e?.response?.status || Number(e?.code)) === 412;
+}
+
+function conflictMessage(eventId: string): string {
+  return `Event ${eventId} was changed by someone else since it was read (ETag mismatch); ` +
+         `fetch it again with get_event and retry`;
+}
+
+// === RECURRING EVENTS ===
+
+// Fields the API fills in itself and rejects or ignores on insert
+const SERVER_EVENT_FIELDS = [
+  "id",
+  "etag",
+  "kind",
+  "status",
+  "htmlLink",
+  "iCalUID",
+  "created",
+  "updated",
+  "creator",
+  "organizer",
+  "sequence",
+  "recurringEventId",
+  "originalStartTime",
+  "hangoutLink",
+  "conferenceData",
+] as const;
+
+/**
+ * Copy an event without the fields the API manages itself, ready to send back
+ */
+function withoutServerFields(event: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+  const body: calendar_v3.Schema$Event = { ...event };
+  for (const field of SERVER_EVENT_FIELDS) {
+    delete body[field];
+  }
+  return body;
+}
+
+/**
+ * Fetch the recurring series an event belongs to (the event itself if it is the series)
+ */
+async function getSeriesMaster(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  event: calendar_v3.Schema$Event
+): Promise<calendar_v3.Schema$Event | null> {
+  if (event.recurringEventId) {
+    const response = await calendar.events.get({ calendarId, eventId: event.recurringEventId });
+    return response.data;
+  }
+  return event.recurrence && event.recurrence.length > 0 ? event : null;
+}
+
+/**
+ * Check whether an instance is the first occurrence of its series
+ */
+function isFirstInstance(instance: calendar_v3.Schema$Event, master: calendar_v3.Schema$Event): boolean {
+  if (instance.id === master.id) return true;
+
+  const original = instance.originalStartTime;
+  if (original?.dateTime && master.start?.dateTime) {
+    return new Date(original.dateTime).getTime() === new Date(master.start.dateTime).getTime();
+  }
+  return !!original?.date && original.date === master.start?.date;
+}
+
+/**
+ * Move a series start/end by the same wall-clock amount an instance was moved
+ */
+function shiftSeriesTime(
+  seriesTime: calendar_v3.Schema$EventDateTime | undefined,
+  instanceTime: calendar_v3.Schema$EventDateTime | undefined,
+  newTime: calendar_v3.Schema$EventDateTime | undefined,
+  timeZone: string
+): calendar_v3.Schema$EventDateTime | undefined {
+  if (newTime === instanceTime) return seriesTime;
+
+  // All-day series move by whole days
+  if (seriesTime?.date && instanceTime?.date && newTime?.date) {
+    return toEventDate(addDaysToDate(seriesTime.date, daysBetween(instanceTime.date, newTime.date)));
+  }
+
+  if (!seriesTime?.dateTime || !instanceTime?.dateTime || !newTime?.dateTime) {
+    throw new Error("A whole series can't be switched between all-day and timed; use scope \"following\" or \"instance\"");
+  }
+
+  const delta = wallClockDifference(new Date(instanceTime.dateTime), new Date(newTime.dateTime), timeZone);
+  const shifted = shiftWallClock(new Date(seriesTime.dateTime), delta, timeZone);
+  return {
+    dateTime: toZonedISOString(shifted, timeZone),
+    timeZone,
+  };
+}
+
+/**
+ * Recurrence rules for the part of a series starting at an instance, keeping COUNT consistent
+ */
+async function getRemainingRecurrence(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  master: calendar_v3.Schema$Event,
+  instance: calendar_v3.Schema$Event
+): Promise<string[]> {
+  const rules = master.recurrence || [];
+  const count = getCount(rules);
+  if (count === null) return rules;
+
+  const splitAt = instance.originalStartTime?.dateTime || `${instance.originalStartTime?.date}T00:00:00Z`;
+  const response = await calendar.events.instances({
+    calendarId,
+    eventId: master.id!,
+    timeMax: new Date(splitAt).toISOString(),
+    showDeleted: true,
+    maxResults: 2500,
+  });
+  const before = (response.data.items || []).length;
+
+  return withCount(rules, Math.max(count - before, 1));
+}
+
+/**
+ * End a series just before the given instance, returning the new UNTIL and the updated series
+ */
+async function endSeriesBefore(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  master: calendar_v3.Schema$Event,
+  instance: calendar_v3.Schema$Event
+): Promise<{ until: string; series: calendar_v3.Schema$Event }> {
+  const until = getUntilBefore(instance.originalStartTime || instance.start || {});
+
+  const response = await calendar.events.patch({
+    calendarId,
+    eventId: master.id!,
+    requestBody: {
+      recurrence: withUntil(master.recurrence || [], until),
+    },
+  });
+
+  return { until, series: response.data };
+}
+
+/**
+ * Describe recurrence details of an event for listings
+ */
+function formatRecurrence(event: calendar_v3.Schema$Event, indent: string = "   "): string {
+  let result = "";
+  if (event.recurringEventId) {
+    result += `${indent}Recurring Event ID: ${event.recurringEventId}\n`;
+  }
+  if (event.recurrence && event.recurrence.length > 0) {
+    result += `${indent}Recurrence: ${event.recurrence.join("; ")}\n`;
+  }
+  return result;
+}
+
+// === EVENT LISTING ===
+
+// Safety limit for fetchAll, so a wide range can't exhaust quota or flood the client
+const MAX_FETCH_ALL_EVENTS = 2500;
+const FETCH_ALL_PAGE_SIZE = 250;
+
+interface EventPage {
+  events: calendar_v3.Schema$Event[];
+  nextPageToken?: string;
+}
+
+/**
+ * List events one page at a time, or follow pages up to the safety limit
+ */
+async function fetchEvents(
+  calendar: calendar_v3.Calendar,
+  params: calendar_v3.Params$Resource$Events$List,
+  fetchAll: boolean
+): Promise<EventPage> {
+  if (!fetchAll) {
+    const response = await calendar.events.list(params);
+    return {
+      events: response.data.items || [],
+      nextPageToken: response.data.nextPageToken || undefined,
+    };
+  }
+
+  const events: calendar_v3.Schema$Event[] = [];
+  let pageToken = params.pageToken;
+
+  do {
+    const response = await calendar.events.list({
+      ...params,
+      maxResults: FETCH_ALL_PAGE_SIZE,
+      pageToken,
+    });
+    events.push(...(response.data.items || []));
+    pageToken = response.data.nextPageToken || undefined;
+  } while (pageToken && events.length < MAX_FETCH_ALL_EVENTS);
+
+  return { events, nextPageToken: pageToken };
+}
+
+/**
+ * Explain how to continue a truncated listing
+ */
+function formatTruncation(page: EventPage, fetchAll: boolean): string {
+  if (!page.nextPageToken) return "";
+
+  const reason = fetchAll
+    ? `stopped at the ${MAX_FETCH_ALL_EVENTS}-event safety limit`
+    : "more events are available";
+  return `⚠️ Results truncated (${reason}).\n` +
+         `   Pass pageToken: ${page.nextPageToken} to continue.\n`;
 }
 
 // === TOOL IMPLEMENTATIONS ===
@@ -96,50 +779,75 @@ async function getCalendar() {
  * List upcoming calendar events
  */
 async function listEvents(
-  maxResults: string = "10",
+  maxResults: number = 10,
   calendarId: string = "primary",
   timeMin: string = "",
-  timeMax: string = ""
-): Promise<string> {
-  logger.info(`Listing events: max=${maxResults}, calendar=${calendarId}`);
+  timeMax: string = "",
+  expandRecurring: boolean = true,
+  pageToken: string = "",
+  fetchAll: boolean = false,
+  timeZone: string = "",
+  eventTypes: string[] = [],
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Listing events: max=${maxResults}, calendar=${calendarId}, all=${fetchAll}`);
 
   try {
-    const calendar = await getCalendar();
-    const maxResultsNum = parseInt(maxResults) || 10;
+    const calendar = await getCalendar(account);
 
-    const params: any = {
+    const params: calendar_v3.Params$Resource$Events$List = {
       calendarId,
-      maxResults: maxResultsNum,
-      singleEvents: true,
-      orderBy: "startTime",
+      maxResults,
+      singleEvents: expandRecurring,
     };
 
-    if (timeMin) {
-      params.timeMin = new Date(timeMin).toISOString();
-    } else {
-      params.timeMin = new Date().toISOString();
+    if (pageToken) {
+      params.pageToken = pageToken;
     }
 
-    if (timeMax) {
-      params.timeMax = new Date(timeMax).toISOString();
+    if (eventTypes.length > 0) {
+      params.eventTypes = eventTypes;
     }
 
-    const response = await calendar.events.list(params);
-    const events = response.data.items || [];
+    // Ordering by start time is only allowed when recurring events are expanded
+    if (expandRecurring) {
+      params.orderBy = "startTime";
+    }
+
+    // Relative bounds like "tomorrow" are read in the calendar's zone unless one is given
+    const zone = timeZone
+      ? validateTimeZone(timeZone)
+      : timeMin || timeMax ? await getCalendarTimeZone(calendar, calendarId) : "UTC";
+
+    const from = timeMin ? parseDateExpression(timeMin, zone, "timeMin") : undefined;
+    const to = timeMax ? parseDateExpression(timeMax, zone, "timeMax", from?.date) : undefined;
+
+    params.timeMin = (from?.date || new Date()).toISOString();
+    if (to) {
+      params.timeMax = to.date.toISOString();
+    }
+
+    const notes = (from ? describeResolved("timeMin", timeMin, from, zone) : "") +
+                  (to ? describeResolved("timeMax", timeMax, to, zone) : "");
+    const resolved = resolvedData({ timeMin: from, timeMax: to }, zone);
+
+    const page = await fetchEvents(calendar, params, fetchAll);
+    const events = page.events;
 
     if (events.length === 0) {
-      return "📅 No upcoming events found.";
+      return {
+        text: (notes ? `${notes}\n` : "") + "📅 No upcoming events found.",
+        data: { calendarId, events: [], truncated: false, resolved },
+      };
     }
 
-    let result = `📅 Found ${events.length} event(s):\n\n`;
+    let result = notes ? `${notes}\n` : "";
+    result += `📅 Found ${events.length} event(s):\n\n`;
 
     for (const event of events) {
-      const start = event.start?.dateTime || event.start?.date;
-      const end = event.end?.dateTime || event.end?.date;
       result += `📍 ${event.summary || "Untitled Event"}\n`;
       result += `   ID: ${event.id}\n`;
-      result += `   Start: ${start}\n`;
-      result += `   End: ${end}\n`;
+      result += formatEventDates(event);
       if (event.description) {
         result += `   Description: ${event.description}\n`;
       }
@@ -149,13 +857,27 @@ async function listEvents(
       if (event.attendees && event.attendees.length > 0) {
         result += `   Attendees: ${event.attendees.map(a => a.email).join(", ")}\n`;
       }
+      result += formatEventType(event);
+      result += formatRecurrence(event);
+      result += formatEventOptions(event);
       result += "\n";
     }
 
-    return result;
+    result += formatTruncation(page, fetchAll);
+
+    return {
+      text: result,
+      data: {
+        calendarId,
+        events: events.map(toEventSummary),
+        nextPageToken: page.nextPageToken,
+        truncated: !!page.nextPageToken,
+        resolved,
+      },
+    };
   } catch (error) {
     logger.error("Error listing events:", error);
-    return formatError(error);
+    return errorResult(error, account);
   }
 }
 
@@ -168,28 +890,44 @@ async function createEvent(
   end: string = "",
   description: string = "",
   location: string = "",
-  attendees: string = "",
-  calendarId: string = "primary"
-): Promise<string> {
+  attendees: string[] = [],
+  calendarId: string = "primary",
+  timeZone: string = "",
+  recurrence: string[] = [],
+  exceptDates: string[] = [],
+  sendUpdates: SendUpdates = "none",
+  addMeet: boolean = false,
+  options: EventOptions = { reminders: [], colorId: "" },
+  typeOptions: EventTypeOptions = { eventType: "default", declineMessage: "", workingLocationLabel: "" },
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  // Special event types get the title Google Calendar gives them
+  summary = summary || defaultSummary(typeOptions) || "";
   logger.info(`Creating event: ${summary}`);
 
   try {
     validateRequired(summary, "summary");
     validateRequired(start, "start");
-    validateRequired(end, "end");
 
-    const calendar = await getCalendar();
+    const calendar = await getCalendar(account);
+    const zone = timeZone ? validateTimeZone(timeZone) : await getCalendarTimeZone(calendar, calendarId);
+
+    // A relative end such as "+45m" counts from the start
+    const startAt = parseDateExpression(start, zone, "start");
+    const endAt = end ? parseDateExpression(end, zone, "end", startAt.date) : undefined;
+
+    const times = newEventTimes(startAt, endAt, zone);
+
+    // Out-of-office and focus time can't be all-day, so whole days are blocked from midnight to midnight
+    if (needsTimes(typeOptions.eventType) && times.start.date && times.end.date) {
+      times.start = toEventDateTime(parseDateExpression(times.start.date, zone, "start").date, zone);
+      times.end = toEventDateTime(parseDateExpression(times.end.date, zone, "end").date, zone);
+    }
 
-    const eventData: any = {
+    const eventData: calendar_v3.Schema$Event = {
       summary,
-      start: {
-        dateTime: new Date(start).toISOString(),
-        timeZone: "UTC",
-      },
-      end: {
-        dateTime: new Date(end).toISOString(),
-        timeZone: "UTC",
-      },
+      ...times,
     };
 
     if (description) {
@@ -200,24 +938,67 @@ async function createEvent(
       eventData.location = location;
     }
 
-    if (attendees) {
-      eventData.attendees = attendees.split(",").map(email => ({ email: email.trim() }));
+    if (attendees.length > 0) {
+      eventData.attendees = attendees.map(email => ({ email }));
+    }
+
+    if (recurrence.length > 0 || exceptDates.length > 0) {
+      eventData.recurrence = buildRecurrence(recurrence, exceptDates, zone);
+    }
+
+    if (addMeet) {
+      eventData.conferenceData = meetCreateRequest();
+    }
+
+    Object.assign(eventData, buildEventOptions(options));
+    Object.assign(eventData, buildEventTypeFields(typeOptions, attendees.length > 0));
+
+    if (dryRun) {
+      const changes = diffEvents({}, eventData);
+      if (addMeet) {
+        changes.push({ field: "conference", after: "new Google Meet link" });
+      }
+      const notifications = describeNotifications(sendUpdates, eventData.attendees || [], selfEmailOf({}, calendarId));
+      return dryRunResult(`create this event on ${calendarId}`, changes, notifications, {
+        calendarId,
+        event: toEventSummary(eventData),
+        resolved: resolvedData({ start: startAt, end: endAt }, zone),
+      });
     }
 
     const response = await calendar.events.insert({
       calendarId,
       requestBody: eventData,
+      sendUpdates,
+      conferenceDataVersion: addMeet ? 1 : undefined,
     });
 
-    return `✅ Event created successfully!\n\n` +
-           `📍 ${response.data.summary}\n` +
-           `   ID: ${response.data.id}\n` +
-           `   Start: ${response.data.start?.dateTime || response.data.start?.date}\n` +
-           `   End: ${response.data.end?.dateTime || response.data.end?.date}\n` +
-           `   Link: ${response.data.htmlLink}`;
+    const changeId = await recordChange("create_event", account, calendarId, `Created "${summary}"`, [
+      { action: "create", eventId: response.data.id!, after: response.data },
+    ]);
+
+    const text = `✅ Event created successfully!\n\n` +
+                 `📍 ${response.data.summary}\n` +
+                 `   ID: ${response.data.id}\n` +
+                 formatEventTimes(response.data, zone) +
+                 formatRecurrence(response.data) +
+                 formatConference(response.data) +
+                 `   Link: ${response.data.htmlLink}\n` +
+                 formatChangeId(changeId);
+    const notes = describeResolved("start", start, startAt, zone) + (endAt ? describeResolved("end", end, endAt, zone) : "");
+
+    return {
+      text: notes ? `${text}\n\n${notes}` : text,
+      data: {
+        calendarId,
+        changeId,
+        event: toEventSummary(response.data),
+        resolved: resolvedData({ start: startAt, end: endAt }, zone),
+      },
+    };
   } catch (error) {
     logger.error("Error creating event:", error);
-    return formatError(error);
+    return errorResult(error, account);
   }
 }
 
@@ -231,14 +1012,49 @@ async function updateEvent(
   end: string = "",
   description: string = "",
   location: string = "",
-  calendarId: string = "primary"
-): Promise<string> {
-  logger.info(`Updating event: ${eventId}`);
+  clear: string[] = [],
+  calendarId: string = "primary",
+  timeZone: string = "",
+  scope: RecurrenceScope = "instance",
+  etag: string = "",
+  sendUpdates: SendUpdates = "none",
+  addMeet: boolean = false,
+  options: EventOptions = { reminders: [], colorId: "" },
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Updating event: ${eventId} (scope=${scope})`);
 
   try {
     validateRequired(eventId, "eventId");
+    const cleared = parseClearFields(clear);
 
-    const calendar = await getCalendar();
+    // Fields set directly, without reading the event first
+    const fields: calendar_v3.Schema$Event = { ...buildEventOptions(options) };
+    if (summary) {
+      fields.summary = summary;
+    }
+    if (description) {
+      fields.description = description;
+    }
+    if (location) {
+      fields.location = location;
+    }
+
+    for (const field of cleared) {
+      if (Object.keys(CLEARED_VALUES[field]).some(key => key in fields)) {
+        throw new Error(`${field} can't be both set and cleared`);
+      }
+      Object.assign(fields, CLEARED_VALUES[field]);
+    }
+    if (addMeet && cleared.includes("conference")) {
+      throw new Error("addMeet can't be combined with clearing the conference");
+    }
+    if (Object.keys(fields).length === 0 && !start && !end && !addMeet) {
+      throw new Error("Nothing to update; pass at least one field to change or clear");
+    }
+
+    const calendar = await getCalendar(account);
 
     // Get existing event
     const existing = await calendar.events.get({
@@ -246,76 +1062,501 @@ async function updateEvent(
       eventId,
     });
 
-    const eventData: any = {
-      summary: summary || existing.data.summary,
-    };
+    // The caller's copy must still be current; later writes are conditional on what was just read
+    if (etag && etag !== existing.data.etag) {
+      throw new Error(conflictMessage(eventId));
+    }
 
-    if (start) {
-      eventData.start = {
-        dateTime: new Date(start).toISOString(),
-        timeZone: "UTC",
+    // Keep the event's own zone unless the caller asks for a different one
+    const zone = timeZone
+      ? validateTimeZone(timeZone)
+      : existing.data.start?.timeZone || await getCalendarTimeZone(calendar, calendarId);
+
+    // A relative end such as "+45m" counts from the (new) start
+    const startAt = start ? parseDateExpression(start, zone, "start") : undefined;
+    const startReference = startAt?.date || (isAllDay(existing.data)
+      ? parseDateExpression(existing.data.start!.date!, zone, "start").date
+      : new Date(existing.data.start?.dateTime || Date.now()));
+    const endAt = end ? parseDateExpression(end, zone, "end", startReference) : undefined;
+
+    const { start: newStart, end: newEnd } = updatedEventTimes(existing.data, startAt, endAt, zone);
+
+    // Decide whether the change reaches beyond this instance
+    let target = existing.data;
+    let mode: "single" | "series" | "split" = "single";
+
+    if (scope !== "instance") {
+      const master = await getSeriesMaster(calendar, calendarId, existing.data);
+      if (master) {
+        target = master;
+        mode = scope === "all" || isFirstInstance(existing.data, master) ? "series" : "split";
+      }
+    }
+
+    // Only the fields being changed are sent, so everything else on the event is left alone
+    const patch: calendar_v3.Schema$Event = { ...fields };
+
+    if (startAt || endAt || mode === "split") {
+      if (mode === "series") {
+        // Move the whole series by as much as this instance moved
+        patch.start = shiftSeriesTime(target.start, existing.data.start, newStart, zone);
+        patch.end = shiftSeriesTime(target.end, existing.data.end, newEnd, zone);
+      } else {
+        patch.start = newStart;
+        patch.end = newEnd;
+      }
+    }
+
+    // An existing conference is kept as is; only events without one get a new link
+    const createMeet = addMeet && !target.conferenceData;
+    if (createMeet) {
+      patch.conferenceData = meetCreateRequest();
+    }
+    const conferenceDataVersion = createMeet || cleared.includes("conference") ? 1 : undefined;
+
+    if (dryRun) {
+      const after = mode === "split"
+        ? { ...target, ...patch, recurrence: await getRemainingRecurrence(calendar, calendarId, target, existing.data) }
+        : { ...target, ...patch };
+      const changes = diffEvents(target, after);
+      if (createMeet) {
+        changes.push({ field: "conference", after: "new Google Meet link" });
+      }
+      if (cleared.includes("conference") && target.conferenceData) {
+        changes.push({ field: "conference", before: "video conference", after: undefined });
+      }
+      if (mode === "split") {
+        const until = getUntilBefore(existing.data.originalStartTime || existing.data.start || {});
+        changes.push({ field: "previous series", before: target.id || undefined, after: `ends ${until}` });
+      }
+      const action = {
+        single: "update this event",
+        series: "update every instance of the series",
+        split: "split the series at this instance and update this and following instances",
+      }[mode];
+      const notifications = describeNotifications(
+        sendUpdates,
+        [...(target.attendees || []), ...(after.attendees || [])],
+        selfEmailOf(target, calendarId)
+      );
+      return dryRunResult(action, changes, notifications, {
+        calendarId,
+        scope,
+        event: toEventSummary({ ...after, id: target.id }),
+        resolved: resolvedData({ start: startAt, end: endAt }, zone),
+      });
+    }
+
+    let response;
+    let seriesNote = "";
+    let operations: EventOperation[];
+
+    if (mode === "split") {
+      // Start a new series at this instance, then end the old one just before it.
+      // The new series keeps the old one's conference unless the update replaces or clears it.
+      const requestBody: calendar_v3.Schema$Event = {
+        ...withoutServerFields(target),
+        conferenceData: existingConference(target),
+        recurrence: await getRemainingRecurrence(calendar, calendarId, target, existing.data),
+        ...patch,
       };
+
+      response = await calendar.events.insert({
+        calendarId,
+        requestBody,
+        sendUpdates,
+        conferenceDataVersion: requestBody.conferenceData ? 1 : conferenceDataVersion,
+      });
+
+      const { until, series } = await endSeriesBefore(calendar, calendarId, target, existing.data);
+      seriesNote = `   Previous series: ${target.id} (now ends ${until})\n`;
+      operations = [
+        { action: "create", eventId: response.data.id!, after: response.data },
+        { action: "update", eventId: target.id!, before: target, after: series },
+      ];
     } else {
-      eventData.start = existing.data.start;
+      response = await calendar.events.patch(
+        {
+          calendarId,
+          eventId: target.id!,
+          requestBody: patch,
+          sendUpdates,
+          conferenceDataVersion,
+        },
+        ifMatch(target.etag)
+      );
+      operations = [{ action: "update", eventId: target.id!, before: target, after: response.data }];
+    }
+
+    const changeId = await recordChange("update_event", account, calendarId, `Updated "${target.summary}"`, operations);
+
+    const note = { single: "", series: " (all instances)", split: " (this and following instances)" }[mode];
+
+    const text = `✅ Event updated successfully${note}!\n\n` +
+                 `📍 ${response.data.summary}\n` +
+                 `   ID: ${response.data.id}\n` +
+                 formatEventTimes(response.data, zone) +
+                 formatRecurrence(response.data) +
+                 formatConference(response.data) +
+                 seriesNote +
+                 `${formatChangeId(changeId)}\n`;
+    const notes = (startAt ? describeResolved("start", start, startAt, zone) : "") +
+                  (endAt ? describeResolved("end", end, endAt, zone) : "");
+
+    return {
+      text: notes ? `${text}\n${notes}` : text,
+      data: {
+        calendarId,
+        scope,
+        changeId,
+        event: toEventSummary(response.data),
+        previousSeriesId: mode === "split" ? target.id : undefined,
+        resolved: resolvedData({ start: startAt, end: endAt }, zone),
+      },
+    };
+  } catch (error) {
+    logger.error("Error updating event:", error);
+    return errorResult(isPreconditionFailed(error) ? new Error(conflictMessage(eventId)) : error, account);
+  }
+}
+
+
+/**
+ * Delete a calendar event
+ */
+async function deleteEvent(
+  eventId: string = "",
+  calendarId: string = "primary",
+  scope: RecurrenceScope = "instance",
+  sendUpdates: SendUpdates = "none",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Deleting event: ${eventId} (scope=${scope})`);
+
+  try {
+    validateRequired(eventId, "eventId");
+
+    const calendar = await getCalendar(account);
+
+    if (dryRun) {
+      return await previewDelete(calendar, calendarId, eventId, scope, sendUpdates);
     }
 
-    if (end) {
-      eventData.end = {
-        dateTime: new Date(end).toISOString(),
-        timeZone: "UTC",
+    const existing = await calendar.events.get({ calendarId, eventId });
+    const master = scope === "instance" ? null : await getSeriesMaster(calendar, calendarId, existing.data);
+
+    if (master && scope === "following" && !isFirstInstance(existing.data, master)) {
+      const { until, series } = await endSeriesBefore(calendar, calendarId, master, existing.data);
+      const changeId = await recordChange("delete_event", account, calendarId, `Ended series "${master.summary}" before ${eventId}`, [
+        { action: "update", eventId: master.id!, before: master, after: series },
+      ]);
+      return {
+        text: `✅ Deleted this and following instances!\n` +
+              `   Event ID: ${eventId}\n` +
+              `   Series ID: ${master.id} (now ends ${until})\n` +
+              formatChangeId(changeId),
+        data: { calendarId, eventId, scope, changeId, seriesId: master.id, seriesUntil: until },
       };
-    } else {
-      eventData.end = existing.data.end;
     }
 
-    if (description !== undefined) {
-      eventData.description = description;
+    const target = master || existing.data;
+
+    await calendar.events.delete({
+      calendarId,
+      eventId: target.id!,
+      sendUpdates,
+    });
+
+    const changeId = await recordChange(
+      "delete_event",
+      account,
+      calendarId,
+      `Deleted ${master ? "series " : ""}"${target.summary || "Untitled Event"}"`,
+      [{ action: "delete", eventId: target.id!, before: target }]
+    );
+
+    if (master) {
+      return {
+        text: `✅ Recurring series deleted successfully!\n   Series ID: ${master.id}\n${formatChangeId(changeId)}`,
+        data: { calendarId, eventId, scope, changeId, seriesId: master.id },
+      };
     }
 
-    if (location !== undefined) {
-      eventData.location = location;
+    return {
+      text: `✅ Event deleted successfully!\n   Event ID: ${eventId}\n${formatChangeId(changeId)}`,
+      data: { calendarId, eventId, scope, changeId },
+    };
+  } catch (error) {
+    logger.error("Error deleting event:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Dry run of deleteEvent: the event or series that would go, or how a series would be shortened
+ */
+async function previewDelete(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string,
+  scope: RecurrenceScope,
+  notify: string
+): Promise<ToolResult> {
+  const existing = await calendar.events.get({ calendarId, eventId });
+  const master = scope === "instance" ? null : await getSeriesMaster(calendar, calendarId, existing.data);
+  const data = { calendarId, eventId, scope };
+
+  if (master && scope === "following" && !isFirstInstance(existing.data, master)) {
+    const until = getUntilBefore(existing.data.originalStartTime || existing.data.start || {});
+    const changes = diffEvents(master, { ...master, recurrence: withUntil(master.recurrence || [], until) });
+    const notifications = describeNotifications(notify, master.attendees || [], selfEmailOf(master, calendarId));
+    return dryRunResult(`end series "${master.summary}" before this instance`, changes, notifications, {
+      ...data,
+      seriesId: master.id,
+      seriesUntil: until,
+    });
+  }
+
+  const target = master || existing.data;
+  const what = master ? `the whole series "${target.summary}"` : `"${target.summary || "Untitled Event"}"`;
+  const notifications = describeNotifications(notify, target.attendees || [], selfEmailOf(target, calendarId));
+  return dryRunResult(`delete ${what}`, diffEvents(target, {}), notifications, {
+    ...data,
+    seriesId: master?.id || undefined,
+  });
+}
+
+/**
+ * Move an event to another calendar; it keeps its ID and the new calendar becomes its organizer
+ */
+async function moveEvent(
+  eventId: string = "",
+  calendarId: string = "primary",
+  destinationCalendarId: string = "",
+  sendUpdates: SendUpdates = "none",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Moving event: ${eventId} from ${calendarId} to ${destinationCalendarId}`);
+
+  try {
+    validateRequired(eventId, "eventId");
+    const destination = validateRequired(destinationCalendarId, "destinationCalendarId");
+    if (destination === calendarId) {
+      throw new Error(`Event ${eventId} is already on ${calendarId}`);
+    }
+
+    const calendar = await getCalendar(account);
+    const existing = await calendar.events.get({ calendarId, eventId });
+
+    // The API only moves whole events, so a single occurrence can't leave its series
+    if (existing.data.recurringEventId) {
+      throw new Error(`${eventId} is one occurrence of a recurring series; ` +
+                      `move the whole series with its ID ${existing.data.recurringEventId}`);
+    }
+
+    const summary = existing.data.summary || "Untitled Event";
+
+    if (dryRun) {
+      const notifications = describeNotifications(sendUpdates, existing.data.attendees || [], selfEmailOf(existing.data, calendarId));
+      return dryRunResult(
+        `move "${summary}" from ${calendarId} to ${destination}`,
+        [{ field: "calendar", before: calendarId, after: destination }],
+        notifications,
+        { calendarId, destinationCalendarId: destination, event: toEventSummary(existing.data) }
+      );
+    }
+
+    const response = await calendar.events.move({ calendarId, eventId, destination, sendUpdates });
+
+    const changeId = await recordChange("move_event", account, destination, `Moved "${summary}" from ${calendarId}`, [
+      { action: "move", eventId, before: existing.data, after: response.data, from: calendarId },
+    ]);
+
+    return {
+      text: `✅ Event moved successfully!\n\n` +
+            `📍 ${summary}\n` +
+            `   ID: ${response.data.id}\n` +
+            `   From: ${calendarId}\n` +
+            `   To: ${destination}\n` +
+            formatChangeId(changeId),
+      data: { calendarId, destinationCalendarId: destination, changeId, event: toEventSummary(response.data) },
+    };
+  } catch (error) {
+    logger.error("Error moving event:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Add or remove attendees, or change whether they are optional
+ */
+async function manageAttendees(
+  eventId: string = "",
+  calendarId: string = "primary",
+  add: string[] = [],
+  remove: string[] = [],
+  optional: string[] = [],
+  required: string[] = [],
+  sendUpdates: SendUpdates = "all",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Managing attendees: ${eventId}`);
+
+  try {
+    validateRequired(eventId, "eventId");
+    const changes = { add, remove, optional, required };
+    if (Object.values(changes).every(list => list.length === 0)) {
+      throw new Error("Provide at least one of add, remove, optional or required");
     }
 
-    const response = await calendar.events.update({
+    const calendar = await getCalendar(account);
+
+    const existing = await calendar.events.get({
       calendarId,
       eventId,
-      requestBody: eventData,
     });
 
-    return `✅ Event updated successfully!\n\n` +
-           `📍 ${response.data.summary}\n` +
-           `   ID: ${response.data.id}\n` +
-           `   Start: ${response.data.start?.dateTime || response.data.start?.date}\n` +
-           `   End: ${response.data.end?.dateTime || response.data.end?.date}`;
+    const attendees = applyAttendeeChanges(existing.data.attendees || [], changes);
+
+    if (dryRun) {
+      const after = { ...existing.data, attendees };
+      const notifications = describeNotifications(
+        sendUpdates,
+        [...(existing.data.attendees || []), ...attendees],
+        selfEmailOf(existing.data, calendarId)
+      );
+      return dryRunResult("update the guest list", diffEvents(existing.data, after), notifications, {
+        calendarId,
+        sendUpdates,
+        added: changes.add,
+        removed: changes.remove,
+        event: toEventSummary(after),
+      });
+    }
+
+    // The whole guest list is sent, so guests added meanwhile by someone else must not be dropped
+    const response = await calendar.events.patch(
+      {
+        calendarId,
+        eventId,
+        requestBody: { attendees },
+        sendUpdates,
+      },
+      ifMatch(existing.data.etag)
+    );
+
+    const changeId = await recordChange("manage_attendees", account, calendarId, `Changed guests of "${existing.data.summary}"`, [
+      { action: "update", eventId, before: existing.data, after: response.data },
+    ]);
+
+    const event = response.data;
+    let result = `✅ Attendees updated!\n\n`;
+    result += `📍 ${event.summary || "Untitled Event"}\n`;
+    result += `   ID: ${event.id}\n`;
+    result += `   Notifications: ${sendUpdates}\n`;
+    result += `${formatChangeId(changeId)}\n`;
+    result += event.attendees && event.attendees.length > 0
+      ? `   Attendees:\n${formatAttendees(event.attendees, "     ")}`
+      : `   Attendees: none\n`;
+
+    return {
+      text: result,
+      data: {
+        calendarId,
+        sendUpdates,
+        changeId,
+        added: changes.add,
+        removed: changes.remove,
+        event: toEventSummary(event),
+      },
+    };
   } catch (error) {
-    logger.error("Error updating event:", error);
-    return formatError(error);
+    logger.error("Error managing attendees:", error);
+    return errorResult(isPreconditionFailed(error) ? new Error(conflictMessage(eventId)) : error, account);
   }
 }
 
 /**
- * Delete a calendar event
+ * Set your own RSVP on an event you were invited to
  */
-async function deleteEvent(
+async function respondToEvent(
   eventId: string = "",
-  calendarId: string = "primary"
-): Promise<string> {
-  logger.info(`Deleting event: ${eventId}`);
+  response: ResponseStatus,
+  comment: string = "",
+  calendarId: string = "primary",
+  sendUpdates: SendUpdates = "all",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Responding to event: ${eventId} (${response})`);
 
   try {
     validateRequired(eventId, "eventId");
 
-    const calendar = await getCalendar();
+    const calendar = await getCalendar(account);
 
-    await calendar.events.delete({
+    const existing = await calendar.events.get({
       calendarId,
       eventId,
     });
 
-    return `✅ Event deleted successfully!\n   Event ID: ${eventId}`;
+    const attendees = (existing.data.attendees || []).map(attendee => ({ ...attendee }));
+    const self = attendees.find(attendee => attendee.self);
+    if (!self) {
+      throw new Error("You are not on the guest list of this event, so there is nothing to respond to");
+    }
+
+    const previous = self.responseStatus;
+    self.responseStatus = response;
+    if (comment) {
+      self.comment = comment;
+    }
+
+    if (dryRun) {
+      const changes = [{ field: "your response", before: previous || undefined, after: comment ? `${response} "${comment}"` : response }];
+      const organizer = existing.data.organizer?.self ? [] : [{ email: existing.data.organizer?.email }];
+      return dryRunResult(`respond to "${existing.data.summary}"`, changes, describeNotifications(sendUpdates, organizer), {
+        calendarId,
+        responseStatus: response,
+        sendUpdates,
+        event: toEventSummary({ ...existing.data, attendees }),
+      });
+    }
+
+    const updated = await calendar.events.patch(
+      {
+        calendarId,
+        eventId,
+        requestBody: { attendees },
+        sendUpdates,
+      },
+      ifMatch(existing.data.etag)
+    );
+
+    const label = { accepted: "Accepted", declined: "Declined", tentative: "Tentatively accepted" }[response];
+
+    const changeId = await recordChange("respond_to_event", account, calendarId, `${label} "${existing.data.summary}"`, [
+      { action: "update", eventId, before: existing.data, after: updated.data },
+    ]);
+
+    let result = `✅ ${label}: ${updated.data.summary || "Untitled Event"}\n`;
+    result += `   ID: ${updated.data.id}\n`;
+    if (comment) {
+      result += `   Comment: ${comment}\n`;
+    }
+    result += `   Notifications: ${sendUpdates}\n`;
+    result += formatChangeId(changeId);
+
+    return {
+      text: result,
+      data: { calendarId, responseStatus: response, sendUpdates, changeId, event: toEventSummary(updated.data) },
+    };
   } catch (error) {
-    logger.error("Error deleting event:", error);
-    return formatError(error);
+    logger.error("Error responding to event:", error);
+    return errorResult(isPreconditionFailed(error) ? new Error(conflictMessage(eventId)) : error, account);
   }
 }
 
@@ -324,65 +1565,87 @@ async function deleteEvent(
  */
 async function searchEvents(
   query: string = "",
-  maxResults: string = "10",
-  calendarId: string = "primary"
-): Promise<string> {
+  maxResults: number = 10,
+  calendarId: string = "primary",
+  pageToken: string = "",
+  fetchAll: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
   logger.info(`Searching events: ${query}`);
 
   try {
     validateRequired(query, "query");
 
-    const calendar = await getCalendar();
-    const maxResultsNum = parseInt(maxResults) || 10;
-
-    const response = await calendar.events.list({
-      calendarId,
-      q: query,
-      maxResults: maxResultsNum,
-      singleEvents: true,
-      orderBy: "startTime",
-    });
+    const calendar = await getCalendar(account);
 
-    const events = response.data.items || [];
+    const page = await fetchEvents(
+      calendar,
+      {
+        calendarId,
+        q: query,
+        maxResults,
+        singleEvents: true,
+        orderBy: "startTime",
+        pageToken: pageToken || undefined,
+      },
+      fetchAll
+    );
+    const events = page.events;
 
     if (events.length === 0) {
-      return `🔍 No events found matching: "${query}"`;
+      return {
+        text: `🔍 No events found matching: "${query}"`,
+        data: { calendarId, query, events: [], truncated: false },
+      };
     }
 
     let result = `🔍 Found ${events.length} event(s) matching "${query}":\n\n`;
 
     for (const event of events) {
-      const start = event.start?.dateTime || event.start?.date;
       result += `📍 ${event.summary || "Untitled Event"}\n`;
       result += `   ID: ${event.id}\n`;
-      result += `   Start: ${start}\n`;
+      result += isAllDay(event)
+        ? formatEventDates(event)
+        : `   Start: ${event.start?.dateTime}\n`;
       if (event.description) {
         result += `   Description: ${event.description}\n`;
       }
+      result += formatRecurrence(event);
       result += "\n";
     }
 
-    return result;
+    result += formatTruncation(page, fetchAll);
+
+    return {
+      text: result,
+      data: {
+        calendarId,
+        query,
+        events: events.map(toEventSummary),
+        nextPageToken: page.nextPageToken,
+        truncated: !!page.nextPageToken,
+      },
+    };
   } catch (error) {
     logger.error("Error searching events:", error);
-    return formatError(error);
+    return errorResult(error, account);
   }
 }
 
 /**
  * List all calendars
  */
-async function listCalendars(): Promise<string> {
+async function listCalendars(account: string = ""): Promise<ToolResult> {
   logger.info("Listing calendars");
 
   try {
-    const calendar = await getCalendar();
+    const calendar = await getCalendar(account);
 
     const response = await calendar.calendarList.list();
-    const calendars = response.data.items || [];
+    const calendars = (response.data.items || []).filter(cal => isCalendarVisible(cal));
 
     if (calendars.length === 0) {
-      return "📅 No calendars found.";
+      return { text: "📅 No calendars found.", data: { calendars: [] } };
     }
 
     let result = `📅 Found ${calendars.length} calendar(s):\n\n`;
@@ -398,10 +1661,97 @@ async function listCalendars(): Promise<string> {
       result += "\n";
     }
 
-    return result;
+    return { text: result, data: { calendars: calendars.map(toCalendarSummary) } };
   } catch (error) {
     logger.error("Error listing calendars:", error);
-    return formatError(error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * List the colors events and calendars can be given
+ */
+async function listColors(account: string = ""): Promise<ToolResult> {
+  logger.info("Listing colors");
+
+  try {
+    const calendar = await getCalendar(account);
+
+    const response = await calendar.colors.get();
+    const toEntries = (colors: { [id: string]: calendar_v3.Schema$ColorDefinition } | null | undefined) =>
+      Object.entries(colors || {})
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([id, color]) => ({ id, background: color.background || "", foreground: color.foreground || "" }));
+
+    const eventColors = toEntries(response.data.event).map(color => ({ ...color, name: EVENT_COLOR_NAMES[color.id] }));
+    const calendarColors = toEntries(response.data.calendar);
+
+    let result = `🎨 Event colors (pass the ID or name as colorId):\n\n`;
+    for (const color of eventColors) {
+      result += `   ${color.id.padStart(2)} ${(color.name || "").padEnd(10)} ${color.background} (text ${color.foreground})\n`;
+    }
+    result += `\n🎨 Calendar colors: ${calendarColors.length} (IDs ${calendarColors.map(color => color.id).join(", ")})\n`;
+
+    return { text: result, data: { event: eventColors, calendar: calendarColors } };
+  } catch (error) {
+    logger.error("Error listing colors:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * List configured account profiles and whether each is ready to use
+ */
+async function listAccounts(): Promise<ToolResult> {
+  logger.info("Listing accounts");
+
+  try {
+    const { defaultAccount, accounts } = await getAccounts();
+    const summaries = [];
+
+    let result = `👤 ${accounts.size} account(s):\n\n`;
+
+    for (const [name, config] of accounts) {
+      let type: string | undefined;
+      try {
+        const credentials = JSON.parse(await fs.readFile(config.credentialsPath, "utf-8"));
+        type = isServiceAccount(credentials) ? "service_account" : "oauth";
+      } catch {
+        type = undefined;
+      }
+
+      let authorized = type === "service_account";
+      if (type === "oauth") {
+        authorized = await fs.access(config.tokenPath).then(() => true, () => false);
+      }
+
+      summaries.push({
+        name,
+        type,
+        isDefault: name === defaultAccount,
+        credentialsPath: config.credentialsPath,
+        tokenPath: type === "service_account" ? undefined : config.tokenPath,
+        subject: config.subject,
+        authorized,
+      });
+
+      result += `👤 ${name}${name === defaultAccount ? " (default)" : ""}\n`;
+      result += `   Type: ${type === "service_account" ? "Service account" : type === "oauth" ? "OAuth" : "Unknown (credentials file unreadable)"}\n`;
+      result += `   Credentials: ${config.credentialsPath}\n`;
+      if (type !== "service_account") {
+        result += `   Token: ${config.tokenPath}\n`;
+      }
+      if (config.subject) {
+        result += `   Acting as: ${config.subject}\n`;
+      }
+      result += `   Authorized: ${authorized ? "Yes" : "No"}\n`;
+      result += "\n";
+    }
+
+    return { text: result, data: { defaultAccount, accounts: summaries } };
+  } catch (error) {
+    logger.error("Error listing accounts:", error);
+    return errorResult(error);
   }
 }
 
@@ -410,14 +1760,15 @@ async function listCalendars(): Promise<string> {
  */
 async function getEvent(
   eventId: string = "",
-  calendarId: string = "primary"
-): Promise<string> {
+  calendarId: string = "primary",
+  account: string = ""
+): Promise<ToolResult> {
   logger.info(`Getting event: ${eventId}`);
 
   try {
     validateRequired(eventId, "eventId");
 
-    const calendar = await getCalendar();
+    const calendar = await getCalendar(account);
 
     const response = await calendar.events.get({
       calendarId,
@@ -425,14 +1776,14 @@ async function getEvent(
     });
 
     const event = response.data;
-    const start = event.start?.dateTime || event.start?.date;
-    const end = event.end?.dateTime || event.end?.date;
 
     let result = `📍 ${event.summary || "Untitled Event"}\n\n`;
     result += `ID: ${event.id}\n`;
-    result += `Start: ${start}\n`;
-    result += `End: ${end}\n`;
+    result += formatEventDates(event, "");
     result += `Status: ${event.status}\n`;
+    result += formatEventType(event, "");
+    result += `ETag: ${event.etag}\n`;
+    result += formatRecurrence(event, "");
 
     if (event.description) {
       result += `Description: ${event.description}\n`;
@@ -442,331 +1793,2835 @@ async function getEvent(
       result += `Location: ${event.location}\n`;
     }
 
+    result += formatEventOptions(event, "");
+
     if (event.attendees && event.attendees.length > 0) {
       result += `\nAttendees:\n`;
-      for (const attendee of event.attendees) {
-        result += `  - ${attendee.email} (${attendee.responseStatus || "no response"})\n`;
-      }
+      result += formatAttendees(event.attendees, "  ");
     }
 
-    if (event.conferenceData?.entryPoints) {
+    if (event.conferenceData) {
       result += `\nConference:\n`;
-      for (const entry of event.conferenceData.entryPoints) {
-        result += `  - ${entry.entryPointType}: ${entry.uri}\n`;
-      }
+      result += formatConference(event, "  ");
     }
 
     result += `\nLink: ${event.htmlLink}`;
 
-    return result;
+    return { text: result, data: { calendarId, event: toEventSummary(event) } };
   } catch (error) {
     logger.error("Error getting event:", error);
-    return formatError(error);
+    return errorResult(error, account);
   }
 }
 
-// === MCP SERVER SETUP ===
+interface TimeInterval {
+  start: number;
+  end: number;
+}
 
-const server = new Server(
-  {
-    name: "google-calendar",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+/**
+ * Merge overlapping or touching intervals
+ */
+function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: TimeInterval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
   }
-);
 
-// Define available tools
-const TOOLS: Tool[] = [
-  {
-    name: "list_events",
-    description: "List upcoming calendar events",
-    inputSchema: {
-      type: "object",
-      properties: {
-        maxResults: {
-          type: "string",
-          description: "Maximum number of events to return (default: 10)",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
-        timeMin: {
-          type: "string",
-          description: "Start time (ISO 8601 format, optional)",
-        },
-        timeMax: {
-          type: "string",
-          description: "End time (ISO 8601 format, optional)",
-        },
-      },
-    },
-  },
-  {
-    name: "create_event",
-    description: "Create a new calendar event",
-    inputSchema: {
-      type: "object",
-      properties: {
-        summary: {
-          type: "string",
-          description: "Event title/summary",
-        },
-        start: {
-          type: "string",
-          description: "Start time (ISO 8601 format)",
-        },
-        end: {
-          type: "string",
-          description: "End time (ISO 8601 format)",
-        },
-        description: {
-          type: "string",
-          description: "Event description (optional)",
-        },
-        location: {
-          type: "string",
-          description: "Event location (optional)",
-        },
-        attendees: {
-          type: "string",
-          description: "Comma-separated list of attendee emails (optional)",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
-      },
-      required: ["summary", "start", "end"],
-    },
-  },
-  {
-    name: "update_event",
-    description: "Update an existing calendar event",
-    inputSchema: {
-      type: "object",
-      properties: {
-        eventId: {
-          type: "string",
-          description: "Event ID to update",
-        },
-        summary: {
-          type: "string",
-          description: "New event title/summary (optional)",
-        },
-        start: {
-          type: "string",
-          description: "New start time (ISO 8601 format, optional)",
-        },
-        end: {
-          type: "string",
-          description: "New end time (ISO 8601 format, optional)",
-        },
-        description: {
-          type: "string",
-          description: "New event description (optional)",
-        },
-        location: {
-          type: "string",
-          description: "New event location (optional)",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
-      },
-      required: ["eventId"],
-    },
-  },
-  {
-    name: "delete_event",
-    description: "Delete a calendar event",
-    inputSchema: {
-      type: "object",
-      properties: {
-        eventId: {
-          type: "string",
-          description: "Event ID to delete",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
-      },
-      required: ["eventId"],
-    },
-  },
-  {
-    name: "search_events",
-    description: "Search for events by keyword",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Search query",
-        },
-        maxResults: {
-          type: "string",
-          description: "Maximum number of results (default: 10)",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
+  return merged;
+}
+
+/**
+ * Build the working-hours windows for every local day in a range
+ */
+function getWorkingWindows(
+  range: TimeInterval,
+  startMinutes: number,
+  endMinutes: number,
+  timeZone: string,
+  includeWeekends: boolean
+): TimeInterval[] {
+  const windows: TimeInterval[] = [];
+  const first = getZonedParts(new Date(range.start), timeZone);
+  const day = new Date(Date.UTC(first.year, first.month - 1, first.day));
+
+  while (true) {
+    const date = { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate() };
+    const windowStart = zonedTimeToUtc(
+      { ...date, hour: Math.floor(startMinutes / 60), minute: startMinutes % 60 },
+      timeZone
+    ).getTime();
+
+    if (windowStart >= range.end) break;
+
+    const weekday = day.getUTCDay();
+    if (includeWeekends || (weekday !== 0 && weekday !== 6)) {
+      const windowEnd = zonedTimeToUtc(
+        { ...date, hour: Math.floor(endMinutes / 60), minute: endMinutes % 60 },
+        timeZone
+      ).getTime();
+      const start = Math.max(windowStart, range.start);
+      const end = Math.min(windowEnd, range.end);
+      if (start < end) {
+        windows.push({ start, end });
+      }
+    }
+
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return windows;
+}
+
+/**
+ * Remove busy intervals (sorted, merged) from a list of windows
+ */
+function subtractIntervals(windows: TimeInterval[], busy: TimeInterval[]): TimeInterval[] {
+  const free: TimeInterval[] = [];
+
+  for (const window of windows) {
+    let cursor = window.start;
+    for (const block of busy) {
+      if (block.end <= cursor) continue;
+      if (block.start >= window.end) break;
+      if (block.start > cursor) {
+        free.push({ start: cursor, end: block.start });
+      }
+      cursor = Math.max(cursor, block.end);
+    }
+    if (cursor < window.end) {
+      free.push({ start: cursor, end: window.end });
+    }
+  }
+
+  return free;
+}
+
+// Free time around a slot counts towards its rank up to this much; beyond it slots rank by start time
+const SLOT_ROOM_CAP_MINUTES = 60;
+// Bound on the candidates ranked, so a wide range stays cheap
+const MAX_SLOT_CANDIDATES = 2000;
+
+type SlotOrder = "best" | "time";
+
+const SLOT_ORDERS: SlotOrder[] = ["best", "time"];
+
+interface RankedSlot extends TimeInterval {
+  // Free minutes between the slot and the nearest event, buffer or edge of working hours
+  freeBefore: number;
+  freeAfter: number;
+}
+
+/**
+ * Rank slots: ones with the most free time on their tighter side come first, so a meeting
+ * isn't squeezed between two others or against the edge of the day; ties go to the earliest
+ */
+function rankSlots(slots: RankedSlot[]): RankedSlot[] {
+  const room = (slot: RankedSlot) => Math.min(slot.freeBefore, slot.freeAfter, SLOT_ROOM_CAP_MINUTES);
+  return [...slots].sort((a, b) => room(b) - room(a) || a.start - b.start);
+}
+
+function formatRoom(minutes: number): string {
+  return minutes >= SLOT_ROOM_CAP_MINUTES ? `${SLOT_ROOM_CAP_MINUTES}+ min` : `${minutes} min`;
+}
+
+/**
+ * Find open time slots shared by several calendars and attendees, best first or earliest first
+ */
+async function findFreeSlots(
+  calendarIds: string[] = ["primary"],
+  attendees: string[] = [],
+  timeMin: string = "",
+  timeMax: string = "",
+  durationMinutes: number = 30,
+  workingHoursStart: string = "",
+  workingHoursEnd: string = "",
+  bufferMinutes: number = 0,
+  includeWeekends: boolean = false,
+  timeZone: string = "",
+  maxResults: number = 10,
+  orderBy: SlotOrder = "best",
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Finding free slots: calendars=${calendarIds.join(",")}, duration=${durationMinutes}, order=${orderBy}`);
+
+  try {
+    validateRequired(timeMax, "timeMax");
+
+    const calendar = await getCalendar(account);
+
+    const ids = [...calendarIds, ...attendees].filter((id, index, all) => all.indexOf(id) === index);
+    if (ids.length === 0) {
+      throw new Error("At least one calendar ID or attendee email is required");
+    }
+    if (ids.length > 50) {
+      throw new Error("Free/busy lookups are limited to 50 calendars and attendees");
+    }
+
+    // An attendee's address is their primary calendar's ID, so the policy covers attendees too
+    for (const email of attendees) {
+      await checkCalendarPolicy(email, account);
+    }
+
+    if (durationMinutes <= 0) {
+      throw new Error("durationMinutes must be a positive number");
+    }
+
+    const zone = timeZone
+      ? validateTimeZone(timeZone)
+      : await getCalendarTimeZone(calendar, calendarIds[0] || "primary");
+
+    const from = timeMin ? parseDateExpression(timeMin, zone, "timeMin") : undefined;
+    const to = parseDateExpression(timeMax, zone, "timeMax", from?.date);
+
+    const range: TimeInterval = {
+      start: from ? from.date.getTime() : Date.now(),
+      end: to.date.getTime(),
+    };
+    if (range.start >= range.end) {
+      throw new Error("timeMax must be after timeMin");
+    }
+
+    // Busy time is looked up a little beyond the range, so the room measured around slots at its
+    // edges stops at real events (or the edge of working hours) instead of at timeMin or timeMax
+    const padding = SLOT_ROOM_CAP_MINUTES * 60000;
+    const lookaround: TimeInterval = { start: range.start - padding, end: range.end + padding };
+
+    const response = await calendar.freebusy.query({
+      requestBody: {
+        timeMin: new Date(lookaround.start).toISOString(),
+        timeMax: new Date(lookaround.end).toISOString(),
+        timeZone: zone,
+        items: ids.map(id => ({ id })),
       },
-      required: ["query"],
-    },
-  },
-  {
-    name: "list_calendars",
-    description: "List all available calendars",
-    inputSchema: {
-      type: "object",
-      properties: {},
+    });
+
+    const busy: TimeInterval[] = [];
+    const warnings: string[] = [];
+
+    for (const id of ids) {
+      const info = response.data.calendars?.[id];
+      if (!info) {
+        warnings.push(`${id}: no free/busy information returned`);
+        continue;
+      }
+      if (info.errors && info.errors.length > 0) {
+        warnings.push(`${id}: ${info.errors.map(e => e.reason).join(", ")}`);
+        continue;
+      }
+      for (const block of info.busy || []) {
+        if (!block.start || !block.end) continue;
+        busy.push({
+          start: new Date(block.start).getTime() - bufferMinutes * 60000,
+          end: new Date(block.end).getTime() + bufferMinutes * 60000,
+        });
+      }
+    }
+
+    let windows: TimeInterval[] = [lookaround];
+    if (workingHoursStart || workingHoursEnd) {
+      const startMinutes = parseTimeOfDay(workingHoursStart || "09:00", "workingHoursStart");
+      const endMinutes = parseTimeOfDay(workingHoursEnd || "17:00", "workingHoursEnd");
+      if (startMinutes >= endMinutes) {
+        throw new Error("workingHoursEnd must be after workingHoursStart");
+      }
+      windows = getWorkingWindows(lookaround, startMinutes, endMinutes, zone, includeWeekends);
+    }
+
+    const free = subtractIntervals(windows, mergeIntervals(busy));
+
+    // Candidate slots, earliest first, stepping through the part of each free gap inside the range
+    const step = Math.min(durationMinutes, 30) * 60000;
+    const limit = orderBy === "time" ? maxResults : MAX_SLOT_CANDIDATES;
+    const candidates: RankedSlot[] = [];
+    for (const gap of free) {
+      const last = Math.min(gap.end, range.end);
+      for (let start = Math.max(gap.start, range.start); start + durationMinutes * 60000 <= last; start += step) {
+        const end = start + durationMinutes * 60000;
+        candidates.push({
+          start,
+          end,
+          freeBefore: Math.round((start - gap.start) / 60000),
+          freeAfter: Math.round((gap.end - end) / 60000),
+        });
+        if (candidates.length >= limit) break;
+      }
+      if (candidates.length >= limit) break;
+    }
+
+    const slots = (orderBy === "best" ? rankSlots(candidates) : candidates).slice(0, maxResults);
+
+    let result = "";
+
+    if (slots.length === 0) {
+      result = `🕒 No free ${durationMinutes}-minute slots found for ${ids.join(", ")}.\n`;
+    } else {
+      result = `🕒 Found ${slots.length} free slot(s) of ${durationMinutes} minutes (${zone}), ` +
+               `${orderBy === "best" ? "best first" : "earliest first"}:\n\n`;
+      slots.forEach((slot, index) => {
+        const start = new Date(slot.start);
+        const end = new Date(slot.end);
+        result += `${index + 1}. ${formatZoned(start, zone)} - ${formatZoned(end, zone).slice(-5)}\n`;
+        result += `   Start: ${toZonedISOString(start, zone)}\n`;
+        result += `   End: ${toZonedISOString(end, zone)}\n`;
+        result += `   UTC: ${start.toISOString()} - ${end.toISOString()}\n`;
+        result += `   Free before/after: ${formatRoom(slot.freeBefore)} / ${formatRoom(slot.freeAfter)}\n`;
+        result += "\n";
+      });
+      result += `Checked: ${ids.join(", ")}\n`;
+    }
+
+    if (warnings.length > 0) {
+      result += `\n⚠️ Could not check:\n`;
+      for (const warning of warnings) {
+        result += `  - ${warning}\n`;
+      }
+    }
+
+    const data = {
+      timeZone: zone,
+      durationMinutes,
+      checked: ids,
+      warnings,
+      slots: slots.map(slot => ({
+        start: toZonedISOString(new Date(slot.start), zone),
+        end: toZonedISOString(new Date(slot.end), zone),
+        startUtc: new Date(slot.start).toISOString(),
+        endUtc: new Date(slot.end).toISOString(),
+        freeBeforeMinutes: slot.freeBefore,
+        freeAfterMinutes: slot.freeAfter,
+      })),
+    };
+
+    return { text: result, data };
+  } catch (error) {
+    logger.error("Error finding free slots:", error);
+    return errorResult(error, account);
+  }
+}
+
+let syncTokens: SyncTokens | null = null;
+
+/**
+ * Format one line of a change report
+ */
+function formatChange(event: calendar_v3.Schema$Event): string {
+  const start = event.start?.dateTime || event.start?.date;
+  return `  - ${event.summary || "Untitled Event"} (ID: ${event.id})${start ? ` at ${start}` : ""}\n`;
+}
+
+/**
+ * Report events added, changed or cancelled since the previous call for a calendar
+ */
+async function getChangesSince(
+  calendarId: string = "primary",
+  reset: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Getting changes: calendar=${calendarId}, reset=${reset}`);
+
+  try {
+    const calendar = await getCalendar(account);
+    const { name } = await resolveAccount(account);
+    // Tokens of the implicit default profile keep their plain calendar ID key from before profiles existed
+    const key = name === DEFAULT_ACCOUNT ? calendarId : `${name}:${calendarId}`;
+
+    if (!syncTokens) {
+      syncTokens = await loadSyncTokens(SYNC_STATE_PATH);
+    }
+    if (reset) {
+      syncTokens.delete(key);
+    }
+
+    const changes = await syncCalendar(calendar, calendarId, syncTokens, key);
+
+    try {
+      await saveSyncTokens(SYNC_STATE_PATH, syncTokens);
+    } catch (error) {
+      logger.warn(`Could not save sync state to ${SYNC_STATE_PATH}, keeping it in memory:`, error);
+    }
+
+    const data = {
+      calendarId,
+      since: changes.since,
+      baseline: changes.baseline,
+      expired: changes.expired,
+      added: changes.added.map(toEventSummary),
+      changed: changes.changed.map(toEventSummary),
+      cancelled: changes.cancelled.map(toEventSummary),
+    };
+
+    let result = "";
+
+    if (changes.expired) {
+      result += `⚠️ The previous sync token expired, so changes since ${changes.since} could not be reported.\n\n`;
+    }
+
+    if (changes.baseline) {
+      result += `🔄 Sync baseline established for ${calendarId} (${changes.baselineCount} event(s)).\n`;
+      result += `Call get_changes_since again to see what changes after this point.`;
+      return { text: result, data };
+    }
+
+    const total = changes.added.length + changes.changed.length + changes.cancelled.length;
+    if (total === 0) {
+      return { text: `🔄 No changes in ${calendarId} since ${changes.since}.`, data };
+    }
+
+    result += `🔄 ${total} change(s) in ${calendarId} since ${changes.since}:\n`;
+
+    for (const [title, events] of [
+      ["➕ Added", changes.added],
+      ["✏️ Changed", changes.changed],
+      ["🗑️ Cancelled", changes.cancelled],
+    ] as const) {
+      if (events.length === 0) continue;
+      result += `\n${title} (${events.length}):\n`;
+      for (const event of events) {
+        result += formatChange(event);
+      }
+    }
+
+    return { text: result, data };
+  } catch (error) {
+    logger.error("Error getting changes:", error);
+    return errorResult(error, account);
+  }
+}
+
+// === ICALENDAR ===
+
+interface ImportOutcome {
+  iCalUID: string;
+  summary: string;
+  action: "create" | "update" | "delete";
+  eventId?: string;
+  error?: string;
+}
+
+/**
+ * Export a time range of a calendar as iCalendar, with series and their exceptions kept intact
+ */
+async function exportEvents(
+  calendarId: string = "primary",
+  timeMin: string = "",
+  timeMax: string = "",
+  timeZone: string = "",
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Exporting events: calendar=${calendarId}`);
+
+  try {
+    validateRequired(timeMax, "timeMax");
+
+    const calendar = await getCalendar(account);
+    const info = await getCalendarInfo(calendar, calendarId);
+    const zone = timeZone ? validateTimeZone(timeZone) : info.timeZone;
+
+    const from = timeMin ? parseDateExpression(timeMin, zone, "timeMin") : undefined;
+    const to = parseDateExpression(timeMax, zone, "timeMax", from?.date);
+    const start = from?.date || new Date();
+
+    // Unexpanded, with cancelled occurrences, so series export as RRULEs with their exceptions
+    const page = await fetchEvents(
+      calendar,
+      {
+        calendarId,
+        timeMin: start.toISOString(),
+        timeMax: to.date.toISOString(),
+        singleEvents: false,
+        showDeleted: true,
+      },
+      true
+    );
+
+    const ics = renderCalendar(page.events, {
+      name: info.summary,
+      timeZone: zone,
+      from: start,
+      to: to.date,
+    });
+    const eventCount = page.events.filter(event => event.status !== "cancelled").length;
+
+    const notes = (from ? describeResolved("timeMin", timeMin, from, zone) : "") +
+                  describeResolved("timeMax", timeMax, to, zone);
+
+    return {
+      text: (notes ? `${notes}\n` : "") +
+            `📤 Exported ${eventCount} event(s) from ${calendarId}:\n\n` +
+            ics +
+            (page.nextPageToken ? `\n⚠️ Export truncated at the ${MAX_FETCH_ALL_EVENTS}-event safety limit; narrow the range.\n` : ""),
+      data: {
+        calendarId,
+        eventCount,
+        truncated: !!page.nextPageToken,
+        ics,
+        resolved: resolvedData({ timeMin: from, timeMax: to }, zone),
+      },
+    };
+  } catch (error) {
+    logger.error("Error exporting events:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Find the series or single event imported with an iCalUID
+ */
+async function findByICalUID(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  iCalUID: string
+): Promise<calendar_v3.Schema$Event | undefined> {
+  const response = await calendar.events.list({ calendarId, iCalUID });
+  return (response.data.items || []).find(event => !event.recurringEventId && event.status !== "cancelled");
+}
+
+/**
+ * Apply a RECURRENCE-ID override to the matching occurrence of an imported series
+ */
+async function importOccurrence(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  parsed: ParsedEvent
+): Promise<{ eventId: string; operation?: EventOperation }> {
+  // The occurrence belongs to its series: its UID, organizer and sequence aren't its own to patch
+  const { iCalUID, recurrence, organizer, sequence, ...fields } = parsed.event;
+  const originalStart = parsed.recurrenceId!.dateTime || parsed.recurrenceId!.date!;
+
+  const master = await findByICalUID(calendar, calendarId, iCalUID!);
+  if (!master) {
+    throw new Error("its series is not in the calendar");
+  }
+  const instances = await calendar.events.instances({
+    calendarId,
+    eventId: master.id!,
+    originalStart,
+    showDeleted: true,
+  });
+  const instance = instances.data.items?.[0];
+  if (!instance) {
+    throw new Error(`the series has no occurrence at ${originalStart}`);
+  }
+
+  if (fields.status === "cancelled") {
+    if (instance.status === "cancelled") {
+      return { eventId: instance.id! };
+    }
+    await calendar.events.delete({ calendarId, eventId: instance.id! });
+    return { eventId: instance.id!, operation: { action: "delete", eventId: instance.id!, before: instance } };
+  }
+
+  const response = await calendar.events.patch({ calendarId, eventId: instance.id!, requestBody: fields });
+  return {
+    eventId: instance.id!,
+    operation: { action: "update", eventId: instance.id!, before: instance, after: response.data },
+  };
+}
+
+/**
+ * Import events from iCalendar data. Events are matched by iCalUID, so importing the same file
+ * again updates the events instead of duplicating them; RECURRENCE-ID overrides update or cancel
+ * single occurrences of their series.
+ */
+async function importIcs(
+  ics: string = "",
+  calendarId: string = "primary",
+  timeZone: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Importing iCalendar data into ${calendarId}`);
+
+  try {
+    validateRequired(ics, "ics");
+
+    const calendar = await getCalendar(account);
+    const zone = timeZone ? validateTimeZone(timeZone) : await getCalendarTimeZone(calendar, calendarId);
+
+    const { events, warnings } = parseICalendar(ics, zone);
+    if (events.length === 0) {
+      throw new Error("The iCalendar data contains no events");
+    }
+
+    // Series first, so overrides of their occurrences can find them
+    const ordered = [...events.filter(parsed => !parsed.recurrenceId), ...events.filter(parsed => parsed.recurrenceId)];
+
+    const outcomes: ImportOutcome[] = [];
+    const operations: EventOperation[] = [];
+    const changes: FieldChange[] = [];
+    let firstError: unknown;
+
+    for (const parsed of ordered) {
+      const { event, recurrenceId } = parsed;
+      const summary = event.summary || "Untitled Event";
+      const start = event.start?.dateTime || event.start?.date || undefined;
+      const outcome: ImportOutcome = {
+        iCalUID: event.iCalUID!,
+        summary,
+        action: recurrenceId ? (event.status === "cancelled" ? "delete" : "update") : "create",
+      };
+      outcomes.push(outcome);
+
+      try {
+        if (recurrenceId) {
+          const occurrence = recurrenceId.dateTime || recurrenceId.date || undefined;
+          changes.push({
+            field: `"${summary}" occurrence`,
+            before: occurrence,
+            after: outcome.action === "delete" ? undefined : start,
+          });
+          if (!dryRun) {
+            const { eventId, operation } = await importOccurrence(calendar, calendarId, parsed);
+            outcome.eventId = eventId;
+            if (operation) operations.push(operation);
+          }
+          continue;
+        }
+
+        const existing = await findByICalUID(calendar, calendarId, event.iCalUID!);
+        if (existing) {
+          outcome.action = "update";
+          outcome.eventId = existing.id || undefined;
+        }
+        changes.push({
+          field: `"${summary}"`,
+          before: existing ? existing.start?.dateTime || existing.start?.date || undefined : undefined,
+          after: start,
+        });
+        if (!dryRun) {
+          const response = await calendar.events.import({ calendarId, requestBody: event });
+          outcome.eventId = response.data.id!;
+          operations.push({
+            action: existing ? "update" : "create",
+            eventId: response.data.id!,
+            before: existing,
+            after: response.data,
+          });
+        }
+      } catch (error) {
+        logger.warn(`Could not import ${event.iCalUID}:`, error);
+        outcome.error = error instanceof Error ? error.message : String(error);
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (firstError && outcomes.every(outcome => outcome.error)) {
+      return errorResult(firstError, account);
+    }
+
+    if (dryRun) {
+      const result = dryRunResult(`import ${ordered.length} event(s) into ${calendarId}`, changes,
+        "No emails are sent for imported events", { calendarId, events: outcomes, warnings });
+      return warnings.length > 0
+        ? { ...result, text: `${result.text}\n\n⚠️ ${warnings.join("\n⚠️ ")}` }
+        : result;
+    }
+
+    const changeId = operations.length > 0
+      ? await recordChange("import_ics", account, calendarId, `Imported ${operations.length} event(s) from iCalendar data`, operations)
+      : undefined;
+
+    const count = (action: string) => outcomes.filter(outcome => !outcome.error && outcome.action === action).length;
+    let result = `📥 Imported iCalendar data into ${calendarId}: ` +
+                 `${count("create")} created, ${count("update")} updated, ${count("delete")} cancelled` +
+                 `${firstError ? `, ${outcomes.filter(outcome => outcome.error).length} failed` : ""}\n\n`;
+
+    for (const outcome of outcomes) {
+      if (outcome.error) {
+        result += `❌ ${outcome.summary} (UID ${outcome.iCalUID}): ${outcome.error}\n`;
+        continue;
+      }
+      const icon = { create: "✅", update: "🔄", delete: "🗑️" }[outcome.action];
+      result += `${icon} ${outcome.summary}\n   ID: ${outcome.eventId}\n`;
+    }
+    for (const warning of warnings) {
+      result += `⚠️ ${warning}\n`;
+    }
+    if (operations.length > 0) {
+      result += `\n${formatChangeId(changeId)}\n`;
+    }
+
+    return { text: result, data: { calendarId, changeId, events: outcomes, warnings } };
+  } catch (error) {
+    logger.error("Error importing iCalendar data:", error);
+    return errorResult(error, account);
+  }
+}
+
+// === CALENDAR MANAGEMENT ===
+
+// Changes to calendar settings and the calendar list don't email anyone
+const CALENDAR_NOTIFICATIONS = "No emails are sent for calendar settings";
+
+/**
+ * Describe a calendar's settings, one per line
+ */
+function formatCalendarSettings(cal: calendar_v3.Schema$Calendar): string {
+  let result = `📍 ${cal.summary || "Untitled Calendar"}\n`;
+  result += `   ID: ${cal.id}\n`;
+  if (cal.description) {
+    result += `   Description: ${cal.description}\n`;
+  }
+  if (cal.location) {
+    result += `   Location: ${cal.location}\n`;
+  }
+  result += `   Time zone: ${cal.timeZone}\n`;
+  return result;
+}
+
+/**
+ * Describe ACL rules, one per line
+ */
+function formatAclRules(rules: calendar_v3.Schema$AclRule[], indent: string = "   "): string {
+  if (rules.length === 0) {
+    return `${indent}(not shared)\n`;
+  }
+  return rules.map(rule => `${indent}👤 ${describeAclScope(rule.scope)}: ${rule.role}\n`).join("");
+}
+
+/**
+ * Create a secondary calendar
+ */
+async function createCalendar(
+  summary: string = "",
+  description: string = "",
+  location: string = "",
+  timeZone: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Creating calendar: ${summary}`);
+
+  try {
+    validateRequired(summary, "summary");
+
+    const calendar = await getCalendar(account);
+
+    // New calendars follow the primary calendar's zone unless told otherwise
+    const requestBody: calendar_v3.Schema$Calendar = {
+      summary,
+      timeZone: timeZone ? validateTimeZone(timeZone) : await getCalendarTimeZone(calendar, "primary"),
+    };
+    if (description) {
+      requestBody.description = description;
+    }
+    if (location) {
+      requestBody.location = location;
+    }
+
+    if (dryRun) {
+      return dryRunResult("create this calendar", diffCalendars({}, requestBody), CALENDAR_NOTIFICATIONS, {
+        calendar: toCalendarSummary(requestBody),
+      });
+    }
+
+    const response = await calendar.calendars.insert({ requestBody });
+
+    return {
+      text: `✅ Calendar created successfully!\n\n${formatCalendarSettings(response.data)}`,
+      data: { calendar: toCalendarSummary(response.data) },
+    };
+  } catch (error) {
+    logger.error("Error creating calendar:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Change a calendar's name, description, location or time zone
+ */
+async function updateCalendar(
+  calendarId: string = "",
+  summary: string = "",
+  description: string = "",
+  location: string = "",
+  timeZone: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Updating calendar: ${calendarId}`);
+
+  try {
+    validateRequired(calendarId, "calendarId");
+
+    const fields: calendar_v3.Schema$Calendar = {};
+    if (summary) {
+      fields.summary = summary;
+    }
+    if (description) {
+      fields.description = description;
+    }
+    if (location) {
+      fields.location = location;
+    }
+    if (timeZone) {
+      fields.timeZone = validateTimeZone(timeZone);
+    }
+    if (Object.keys(fields).length === 0) {
+      throw new Error("Nothing to update; pass summary, description, location or timeZone");
+    }
+
+    const calendar = await getCalendar(account);
+    const existing = await calendar.calendars.get({ calendarId });
+
+    if (dryRun) {
+      const after = { ...existing.data, ...fields };
+      return dryRunResult(`update calendar ${calendarId}`, diffCalendars(existing.data, after), CALENDAR_NOTIFICATIONS, {
+        calendar: toCalendarSummary(after),
+      });
+    }
+
+    const response = await calendar.calendars.patch({ calendarId, requestBody: fields });
+
+    return {
+      text: `✅ Calendar updated successfully!\n\n${formatCalendarSettings(response.data)}`,
+      data: { calendar: toCalendarSummary(response.data) },
+    };
+  } catch (error) {
+    logger.error("Error updating calendar:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Delete a secondary calendar with all its events
+ */
+async function deleteCalendar(
+  calendarId: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Deleting calendar: ${calendarId}`);
+
+  try {
+    validateRequired(calendarId, "calendarId");
+    if (calendarId === "primary" ||
+        calendarId.toLowerCase() === (await getPrimaryCalendarId(account)).toLowerCase()) {
+      throw new Error("The primary calendar can't be deleted");
+    }
+
+    const calendar = await getCalendar(account);
+    const existing = await calendar.calendars.get({ calendarId });
+    const name = existing.data.summary || calendarId;
+
+    if (dryRun) {
+      return dryRunResult(
+        `delete the calendar "${name}" and every event on it`,
+        [{ field: "calendar", before: name, after: undefined }],
+        CALENDAR_NOTIFICATIONS,
+        { calendarId }
+      );
+    }
+
+    await calendar.calendars.delete({ calendarId });
+
+    return {
+      text: `🗑️ Calendar "${name}" deleted (ID: ${calendarId}).\n` +
+            `   Its events were deleted with it and can't be restored with undo_change.`,
+      data: { calendarId },
+    };
+  } catch (error) {
+    logger.error("Error deleting calendar:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Add a calendar shared with you (or a public one) to your calendar list
+ */
+async function subscribeCalendar(
+  calendarId: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Subscribing to calendar: ${calendarId}`);
+
+  try {
+    validateRequired(calendarId, "calendarId");
+
+    const calendar = await getCalendar(account);
+
+    if (dryRun) {
+      // Reading the calendar checks it can be subscribed to at all
+      const existing = await calendar.calendars.get({ calendarId });
+      return dryRunResult(
+        `add "${existing.data.summary || calendarId}" to your calendar list`,
+        [{ field: "calendar list", before: undefined, after: existing.data.summary || calendarId }],
+        CALENDAR_NOTIFICATIONS,
+        { calendar: toCalendarSummary(existing.data) }
+      );
+    }
+
+    const response = await calendar.calendarList.insert({ requestBody: { id: calendarId } });
+
+    return {
+      text: `✅ Subscribed to calendar!\n\n` +
+            `📍 ${response.data.summary || "Untitled Calendar"}\n` +
+            `   ID: ${response.data.id}\n` +
+            `   Access: ${response.data.accessRole}\n`,
+      data: { calendar: toCalendarSummary(response.data) },
+    };
+  } catch (error) {
+    logger.error("Error subscribing to calendar:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Remove a calendar from your calendar list; the calendar itself is left alone
+ */
+async function unsubscribeCalendar(
+  calendarId: string = "",
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Unsubscribing from calendar: ${calendarId}`);
+
+  try {
+    validateRequired(calendarId, "calendarId");
+
+    const calendar = await getCalendar(account);
+    const entry = await calendar.calendarList.get({ calendarId });
+    if (entry.data.primary) {
+      throw new Error("You can't unsubscribe from your primary calendar");
+    }
+    const name = entry.data.summary || calendarId;
+
+    if (dryRun) {
+      return dryRunResult(
+        `remove "${name}" from your calendar list`,
+        [{ field: "calendar list", before: name, after: undefined }],
+        CALENDAR_NOTIFICATIONS,
+        { calendarId }
+      );
+    }
+
+    await calendar.calendarList.delete({ calendarId });
+
+    return {
+      text: `✅ Unsubscribed from "${name}" (ID: ${calendarId}). The calendar itself was not changed.`,
+      data: { calendarId },
+    };
+  } catch (error) {
+    logger.error("Error unsubscribing from calendar:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * List who a calendar is shared with
+ */
+async function listCalendarSharing(calendarId: string = "primary", account: string = ""): Promise<ToolResult> {
+  logger.info(`Listing sharing of calendar: ${calendarId}`);
+
+  try {
+    const calendar = await getCalendar(account);
+    const response = await calendar.acl.list({ calendarId });
+    const rules = response.data.items || [];
+
+    return {
+      text: `👥 Sharing of ${calendarId}:\n\n${formatAclRules(rules)}`,
+      data: { calendarId, rules: rules.map(toAclRuleSummary) },
+    };
+  } catch (error) {
+    logger.error("Error listing calendar sharing:", error);
+    return errorResult(error, account);
+  }
+}
+
+/**
+ * Share a calendar with users, groups or domains at a role, or stop sharing it with them
+ */
+async function manageCalendarSharing(
+  calendarId: string = "",
+  add: string[] = [],
+  remove: string[] = [],
+  role: string = "reader",
+  sendNotifications: boolean = true,
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Managing sharing of calendar: ${calendarId}`);
+
+  try {
+    validateRequired(calendarId, "calendarId");
+    if (add.length === 0 && remove.length === 0) {
+      throw new Error("Provide at least one of add or remove");
+    }
+
+    const adds = add.map(parseAclScope);
+    const removes = remove.map(parseAclScope);
+    for (const scope of adds) {
+      if (findAclRule(removes.map(other => ({ scope: other })), scope)) {
+        throw new Error(`${describeAclScope(scope)} can't be both added and removed`);
+      }
+    }
+
+    const calendar = await getCalendar(account);
+    const rules = (await calendar.acl.list({ calendarId })).data.items || [];
+
+    const changes: FieldChange[] = [];
+    const inserts: AclScope[] = [];
+    const patches: calendar_v3.Schema$AclRule[] = [];
+    const deletes: calendar_v3.Schema$AclRule[] = [];
+
+    for (const scope of adds) {
+      const existing = findAclRule(rules, scope);
+      if (existing?.role === role) continue;
+      changes.push({ field: describeAclScope(scope), before: existing?.role || undefined, after: role });
+      if (existing) {
+        patches.push(existing);
+      } else {
+        inserts.push(scope);
+      }
+    }
+    for (const scope of removes) {
+      const existing = findAclRule(rules, scope);
+      if (!existing) {
+        throw new Error(`${calendarId} isn't shared with ${describeAclScope(scope)}`);
+      }
+      changes.push({ field: describeAclScope(scope), before: existing.role || undefined, after: undefined });
+      deletes.push(existing);
+    }
+
+    // Google emails people and groups a calendar is newly shared with, unless told not to
+    const invited = inserts.filter(scope => scope.type === "user" || scope.type === "group").map(scope => scope.value);
+    const notifications = !sendNotifications
+      ? "No emails will be sent (sendNotifications: false)"
+      : invited.length > 0
+        ? `${invited.length} will be emailed about the shared calendar: ${invited.join(", ")}`
+        : "No one to email (sendNotifications: true)";
+
+    if (dryRun) {
+      return dryRunResult(`change who ${calendarId} is shared with`, changes, notifications, {
+        calendarId,
+        rules: rules.map(toAclRuleSummary),
+      });
+    }
+
+    for (const scope of inserts) {
+      await calendar.acl.insert({ calendarId, requestBody: { role, scope }, sendNotifications });
+    }
+    for (const rule of patches) {
+      await calendar.acl.patch({ calendarId, ruleId: rule.id!, requestBody: { role }, sendNotifications });
+    }
+    for (const rule of deletes) {
+      await calendar.acl.delete({ calendarId, ruleId: rule.id! });
+    }
+
+    const updated = (await calendar.acl.list({ calendarId })).data.items || [];
+
+    return {
+      text: `✅ Sharing of ${calendarId} updated!\n\n` +
+            formatChanges(changes) +
+            `\n👥 Now shared with:\n${formatAclRules(updated)}`,
+      data: { calendarId, changes, rules: updated.map(toAclRuleSummary) },
+    };
+  } catch (error) {
+    logger.error("Error managing calendar sharing:", error);
+    return errorResult(error, account);
+  }
+}
+
+// === BATCH OPERATIONS ===
+
+type BatchOperation = "create" | "update" | "delete" | "move";
+
+const BATCH_OPERATIONS: BatchOperation[] = ["create", "update", "delete", "move"];
+
+// The single-event tool each batch item is handed to
+const BATCH_TOOLS: Record<BatchOperation, string> = {
+  create: "create_event",
+  update: "update_event",
+  delete: "delete_event",
+  move: "move_event",
+};
+
+const MAX_BATCH_ITEMS = 250;
+
+// Set once for the whole batch, not per item
+const BATCH_ARGUMENTS = ["dryRun", "confirmToken", "account", "format"];
+
+interface BatchItemResult {
+  index: number;
+  ok: boolean;
+  eventId?: string;
+  changeId?: string;
+  error?: string;
+  result?: { [key: string]: unknown };
+}
+
+/**
+ * Run `fn` over items with at most `limit` calls in flight, keeping the results in order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Every event in a range matching a query, as batch items; occurrences of a series are selected one by one
+ */
+async function selectBatchEvents(
+  calendarId: string,
+  query: string,
+  timeMin: string,
+  timeMax: string,
+  timeZone: string,
+  account: string
+): Promise<JsonObject[]> {
+  validateRequired(timeMin, "timeMin");
+  validateRequired(timeMax, "timeMax");
+
+  const calendar = await getCalendar(account);
+  const zone = timeZone ? validateTimeZone(timeZone) : await getCalendarTimeZone(calendar, calendarId);
+  const from = parseDateExpression(timeMin, zone, "timeMin");
+  const to = parseDateExpression(timeMax, zone, "timeMax", from.date);
+
+  const page = await fetchEvents(calendar, {
+    calendarId,
+    timeMin: from.date.toISOString(),
+    timeMax: to.date.toISOString(),
+    q: query || undefined,
+    singleEvents: true,
+    orderBy: "startTime",
+  }, true);
+
+  if (page.events.length > MAX_BATCH_ITEMS || page.nextPageToken) {
+    throw new Error(`More than ${MAX_BATCH_ITEMS} events match; narrow the range or the query`);
+  }
+  return page.events.map(event => ({ eventId: event.id, calendarId }));
+}
+
+/**
+ * Check every item against its tool's arguments and the access policy before anything runs
+ */
+async function parseBatchItems(
+  tool: RegisteredTool,
+  items: JsonObject[],
+  shared: JsonObject,
+  calendarId: string,
+  account: string
+): Promise<ToolCall[]> {
+  const issues: ValidationIssue[] = [];
+
+  for (const name of BATCH_ARGUMENTS.filter(name => name in shared)) {
+    issues.push({ field: `shared.${name}`, message: "is set on the batch call itself, not per item" });
+  }
+
+  const calls: ToolCall[] = [];
+  for (const [index, item] of items.entries()) {
+    for (const name of BATCH_ARGUMENTS.filter(name => name in item)) {
+      issues.push({ field: `items[${index}].${name}`, message: "is set on the batch call itself, not per item" });
+    }
+    try {
+      const call = tool.prepare({ calendarId, ...shared, ...item, account });
+      await checkToolCalendars(call.args);
+      calls.push(call);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        issues.push(...error.issues.map(issue => ({ ...issue, field: `items[${index}].${issue.field}` })));
+      } else {
+        issues.push({ field: `items[${index}]`, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ValidationError(issues);
+  }
+  return calls;
+}
+
+/**
+ * One line of the batch report
+ */
+function formatBatchItem(item: BatchItemResult, args: { [key: string]: unknown }, result: ToolResult): string {
+  const event = item.result?.event as EventSummary | undefined;
+  const summary = event?.summary || (args.summary as string) || "";
+  const target = summary && item.eventId ? `"${summary}" (${item.eventId})` : summary ? `"${summary}"` : item.eventId || "Untitled Event";
+
+  if (!item.ok) {
+    return `❌ ${item.index + 1}. ${target}: ${item.error}`;
+  }
+  if (item.result?.dryRun) {
+    // The item's dry-run heading, e.g. "would delete "Offsite dinner""
+    const action = result.text.split("\n")[0].replace(/^🔍 Dry run: /, "").replace(/\. Nothing has been changed\.$/, "");
+    return `🔍 ${item.index + 1}. ${target}: ${action}`;
+  }
+  return `✅ ${item.index + 1}. ${target}` + (item.changeId ? ` (change ${item.changeId})` : "");
+}
+
+/**
+ * Create, update, delete or move many events, given as items or selected by a query over a range,
+ * handing each to the single-event tool and reporting how each one went
+ */
+async function batchEvents(
+  operation: BatchOperation,
+  items: JsonObject[] = [],
+  shared: JsonObject = {},
+  calendarId: string = "primary",
+  query: string = "",
+  timeMin: string = "",
+  timeMax: string = "",
+  timeZone: string = "",
+  concurrency: number = 5,
+  dryRun: boolean = false,
+  account: string = ""
+): Promise<ToolResult> {
+  logger.info(`Batch ${operation}: ${items.length} item(s), concurrency=${concurrency}`);
+
+  try {
+    const selecting = !!(query || timeMin || timeMax);
+    if (items.length > 0 && selecting) {
+      throw new Error("Give either items or query/timeMin/timeMax to select events, not both");
+    }
+    if (items.length === 0 && !selecting) {
+      throw new Error("items is required (or query/timeMin/timeMax to select events)");
+    }
+    if (operation === "create" && selecting) {
+      throw new Error("create takes the new events as items; query/timeMin/timeMax select existing events");
+    }
+
+    const toolName = BATCH_TOOLS[operation];
+    const tool = TOOLS.find(candidate => candidate.name === toolName)!;
+    if (!isToolEnabled(tool)) {
+      throw new Error(`Tool ${toolName} is disabled by the access policy`);
+    }
+
+    const selected = selecting
+      ? await selectBatchEvents(calendarId, query, timeMin, timeMax, timeZone, account)
+      : items;
+    if (selected.length === 0) {
+      return {
+        text: "📅 No events match; nothing to do.",
+        data: { operation, succeeded: 0, failed: 0, results: [] },
+      };
+    }
+
+    const calls = await parseBatchItems(tool, selected, shared, calendarId, account);
+    const results = await mapWithConcurrency(calls, concurrency, call =>
+      call.run(dryRun).catch(error => errorResult(error, account))
+    );
+
+    const report = results.map((result, index): BatchItemResult => {
+      const event = result.data?.event as EventSummary | undefined;
+      return {
+        index,
+        ok: !result.isError,
+        eventId: event?.id || (calls[index].args.eventId as string) || undefined,
+        changeId: result.data?.changeId as string | undefined,
+        error: result.isError ? result.text.split("\n")[0].replace(/^❌ Error: /, "") : undefined,
+        result: result.data,
+      };
+    });
+    const lines = report.map((item, index) => `   ${formatBatchItem(item, calls[index].args, results[index])}`).join("\n");
+    const succeeded = report.filter(item => item.ok).length;
+    const failed = report.length - succeeded;
+    const data = { operation, succeeded, failed, results: report };
+
+    if (dryRun) {
+      return {
+        text: `🔍 Dry run: would ${operation} ${report.length} event(s). Nothing has been changed.\n\n` + lines +
+              (failed > 0 ? `\n\n⚠️ ${failed} of them would fail; see above` : ""),
+        data: { ...data, dryRun: true },
+      };
+    }
+
+    const heading = failed === 0
+      ? `✅ Batch ${operation}: all ${succeeded} event(s) done`
+      : `⚠️ Batch ${operation}: ${succeeded} succeeded, ${failed} failed`;
+    return {
+      text: `${heading}\n\n${lines}` +
+            (succeeded > 0 ? "\n\nEach change has its own change ID; undo them one at a time with undo_change" : ""),
+      data,
+      isError: succeeded === 0,
+    };
+  } catch (error) {
+    logger.error(`Error in batch ${operation}:`, error);
+    return errorResult(error, account);
+  }
+}
+
+// === CHANGE JOURNAL ===
+
+// Changes made side by side (batch_events) share one load and save one after another
+let journalLoad: Promise<JournalEntry[]> | null = null;
+let journalSave: Promise<void> = Promise.resolve();
+
+/**
+ * Load the journal once; a failed load is tried again on the next call
+ */
+async function getJournal(): Promise<JournalEntry[]> {
+  if (!journalLoad) {
+    const load = loadJournal(JOURNAL_PATH, message => logger.warn(message));
+    journalLoad = load;
+    load.catch(() => {
+      if (journalLoad === load) journalLoad = null;
+    });
+  }
+  return journalLoad;
+}
+
+/**
+ * Persist the journal; failures are logged and the journal is kept in memory
+ */
+async function persistJournal(): Promise<void> {
+  journalSave = journalSave.then(async () => {
+    try {
+      await saveJournal(JOURNAL_PATH, await getJournal());
+    } catch (error) {
+      logger.warn(`Could not save change journal to ${JOURNAL_PATH}, keeping it in memory:`, error);
+    }
+  });
+  return journalSave;
+}
+
+/**
+ * Record a change made through the server, returning its change ID. The change has already been
+ * made, so a journal that can't be read only costs its undo and is logged rather than reported as a failure.
+ */
+async function recordChange(
+  tool: string,
+  account: string,
+  calendarId: string,
+  description: string,
+  operations: EventOperation[]
+): Promise<string | undefined> {
+  try {
+    const { name } = await resolveAccount(account);
+    const entry = appendEntry(await getJournal(), { tool, account: name, calendarId, description, operations });
+    await persistJournal();
+    return entry.id;
+  } catch (error) {
+    logger.warn(`Could not record the ${tool} change in the journal:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Result line with a change's ID, or a note that it can't be undone
+ */
+function formatChangeId(changeId: string | undefined): string {
+  return changeId
+    ? `   Change ID: ${changeId} (undo with undo_change)`
+    : "   ⚠️ Not recorded in the change journal, so undo_change can't roll it back";
+}
+
+/**
+ * Check for HTTP 404/410, returned for events that don't exist (any more)
+ */
+function isNotFound(error: unknown): boolean {
+  const e = error as { code?: unknown; response?: { status?: number } } | null;
+  const status = e?.response?.status || Number(e?.code);
+  return status === 404 || status === 410;
+}
+
+/**
+ * Fetch an event, or null if it is gone
+ */
+async function getEventOrNull(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  eventId: string
+): Promise<calendar_v3.Schema$Event | null> {
+  try {
+    const response = await calendar.events.get({ calendarId, eventId });
+    return response.data;
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * An event as it was, ready to write back in full with conferenceDataVersion 1, so its
+ * conference (or lack of one) comes back too
+ */
+function restoredBody(before: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+  return { ...withoutServerFields(before), conferenceData: existingConference(before) };
+}
+
+/**
+ * Note for a restored event whose conference didn't come back
+ */
+function lostConferenceNote(before: calendar_v3.Schema$Event, restored: calendar_v3.Schema$Event): string {
+  return before.conferenceData && !restored.conferenceData
+    ? "; its video conference could not be restored, add one with update_event addMeet"
+    : "";
+}
+
+/**
+ * Bring back a deleted event, in place if the API still has it, otherwise as a copy with a new ID
+ */
+async function restoreDeletedEvent(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  before: calendar_v3.Schema$Event,
+  current: calendar_v3.Schema$Event | null,
+  sendUpdates: SendUpdates
+): Promise<calendar_v3.Schema$Event> {
+  if (current) {
+    try {
+      const response = await calendar.events.update({
+        calendarId,
+        eventId: before.id!,
+        requestBody: { ...restoredBody(before), status: "confirmed" },
+        sendUpdates,
+        conferenceDataVersion: 1,
+      });
+      return response.data;
+    } catch (error) {
+      logger.warn(`Could not restore ${before.id} in place, creating a copy:`, error);
+    }
+  }
+
+  const response = await calendar.events.insert({
+    calendarId,
+    requestBody: restoredBody(before),
+    sendUpdates,
+    conferenceDataVersion: 1,
+  });
+  return response.data;
+}
+
+/**
+ * List changes recorded in the journal, newest first
+ */
+async function listRecentChanges(maxResults: number = 10, account: string = ""): Promise<ToolResult> {
+  logger.info(`Listing recent changes: max=${maxResults}`);
+
+  try {
+    const accountName = account ? (await resolveAccount(account)).name : "";
+
+    const entries = (await getJournal())
+      .filter(entry => !accountName || entry.account === accountName)
+      .slice(-maxResults)
+      .reverse();
+
+    const changes = entries.map(entry => ({
+      id: entry.id,
+      timestamp: entry.timestamp,
+      tool: entry.tool,
+      account: entry.account,
+      calendarId: entry.calendarId,
+      description: entry.description,
+      eventIds: entry.operations.map(operation => operation.eventId),
+      undone: !!entry.undoneAt,
+      undoneAt: entry.undoneAt,
+    }));
+
+    if (entries.length === 0) {
+      return { text: "📝 No changes recorded yet.", data: { changes } };
+    }
+
+    let result = `📝 ${entries.length} recent change(s), newest first:\n\n`;
+
+    for (const entry of entries) {
+      result += `🔹 ${entry.id} ${entry.timestamp} ${entry.tool}\n`;
+      result += `   ${entry.description}\n`;
+      result += `   Calendar: ${entry.calendarId} (account: ${entry.account})\n`;
+      result += `   Events: ${entry.operations.map(operation => operation.eventId).join(", ")}\n`;
+      if (entry.undoneAt) {
+        result += `   Undone: ${entry.undoneAt}\n`;
+      }
+      result += "\n";
+    }
+
+    return { text: result, data: { changes } };
+  } catch (error) {
+    logger.error("Error listing recent changes:", error);
+    return errorResult(error, account);
+  }
+}
+
+// Tool whose work each kind of undo step does; the policy must allow it
+const UNDO_TOOLS: Record<EventOperation["action"], string> = {
+  create: "delete_event",
+  update: "update_event",
+  delete: "update_event",
+  move: "move_event",
+};
+
+/**
+ * Roll back a recorded change: delete what it created, restore what it edited or deleted
+ */
+async function undoChange(
+  changeId: string = "",
+  force: boolean = false,
+  sendUpdates: SendUpdates = "none",
+  dryRun: boolean = false
+): Promise<ToolResult> {
+  logger.info(`Undoing change: ${changeId}`);
+  let account = "";
+
+  try {
+    const id = validateRequired(changeId, "changeId");
+
+    const entry = (await getJournal()).find(candidate => candidate.id === id);
+    if (!entry) {
+      throw new Error(`No change ${id} in the journal; see list_recent_changes`);
+    }
+    if (entry.undoneAt) {
+      throw new Error(`Change ${id} was already undone at ${entry.undoneAt}`);
+    }
+
+    account = entry.account;
+    const { calendarId } = entry;
+    for (const operation of entry.operations) {
+      const tool = UNDO_TOOLS[operation.action];
+      if (!isToolAllowed(policy, tool, true)) {
+        throw new Error(`Undoing change ${id} needs ${tool}, which is disabled by the access policy`);
+      }
+    }
+    await checkCalendarPolicy(calendarId, account);
+    for (const operation of entry.operations) {
+      if (operation.from) {
+        await checkCalendarPolicy(operation.from, account);
+      }
+    }
+    const calendar = await getCalendar(account);
+    const operations = [...entry.operations].reverse();
+
+    // Check every event first, so a conflict doesn't leave the change half undone
+    const current = new Map<string, calendar_v3.Schema$Event | null>();
+    for (const operation of operations) {
+      const event = await getEventOrNull(calendar, calendarId, operation.eventId);
+      current.set(operation.eventId, event);
+
+      const live = event && event.status !== "cancelled";
+      if (operation.action !== "delete" && live && !force && event.etag !== operation.after?.etag) {
+        throw new Error(`"${event.summary}" (${operation.eventId}) was modified after change ${id}; ` +
+                        `undoing it would discard those edits. Pass force: true to undo anyway`);
+      }
+    }
+
+    if (dryRun) {
+      const changes: FieldChange[] = [];
+      const attendees: calendar_v3.Schema$EventAttendee[] = [];
+
+      for (const operation of operations) {
+        const event = current.get(operation.eventId) || {};
+        if (operation.action === "move") {
+          changes.push({ field: `${operation.eventId} calendar`, before: calendarId, after: operation.from });
+          attendees.push(...(event.attendees || []));
+          continue;
+        }
+        const restored = operation.action === "create" ? {} : operation.before!;
+        for (const change of diffEvents(operation.action === "delete" ? {} : event, restored)) {
+          changes.push({ ...change, field: `${operation.eventId} ${change.field}` });
+        }
+        attendees.push(...(event.attendees || []), ...(restored.attendees || []));
+      }
+
+      return dryRunResult(`undo "${entry.description}"`, changes, describeNotifications(sendUpdates, attendees), {
+        changeId: id,
+        calendarId,
+        results: [],
+      });
+    }
+
+    const results: string[] = [];
+
+    for (const operation of operations) {
+      const event = current.get(operation.eventId) || null;
+
+      if (operation.action === "create") {
+        if (!event || event.status === "cancelled") {
+          results.push(`⏭️ Already deleted: ${operation.eventId}`);
+          continue;
+        }
+        await calendar.events.delete({ calendarId, eventId: operation.eventId, sendUpdates });
+        results.push(`🗑️ Deleted "${operation.after?.summary || "Untitled Event"}" (${operation.eventId})`);
+      } else if (operation.action === "update") {
+        // A full replacement, so it must not land on edits made since the check above
+        let restored: calendar_v3.Schema$Event;
+        try {
+          const response = await calendar.events.update(
+            {
+              calendarId,
+              eventId: operation.eventId,
+              requestBody: restoredBody(operation.before!),
+              sendUpdates,
+              conferenceDataVersion: 1,
+            },
+            force ? {} : ifMatch(operation.after?.etag)
+          );
+          restored = response.data;
+        } catch (error) {
+          if (isPreconditionFailed(error)) {
+            throw new Error(`"${operation.before?.summary || "Untitled Event"}" (${operation.eventId}) was modified ` +
+                            `while undoing change ${id}; pass force: true to undo anyway`);
+          }
+          throw error;
+        }
+        results.push(`↩️ Restored "${operation.before?.summary || "Untitled Event"}" (${operation.eventId})` +
+                     lostConferenceNote(operation.before!, restored));
+      } else if (operation.action === "move") {
+        if (!event || event.status === "cancelled") {
+          throw new Error(`"${operation.after?.summary || "Untitled Event"}" (${operation.eventId}) is no longer on ${calendarId}`);
+        }
+        await calendar.events.move({
+          calendarId,
+          eventId: operation.eventId,
+          destination: operation.from!,
+          sendUpdates,
+        });
+        results.push(`↪️ Moved "${event.summary || "Untitled Event"}" (${operation.eventId}) back to ${operation.from}`);
+      } else {
+        const restored = await restoreDeletedEvent(calendar, calendarId, operation.before!, event, sendUpdates);
+        results.push((restored.id === operation.eventId
+          ? `♻️ Recreated "${restored.summary || "Untitled Event"}" (${restored.id})`
+          : `♻️ Recreated "${restored.summary || "Untitled Event"}" as a copy with a new ID: ${restored.id}`) +
+          lostConferenceNote(operation.before!, restored));
+      }
+    }
+
+    entry.undoneAt = new Date().toISOString();
+    await persistJournal();
+
+    return {
+      text: `✅ Change ${id} undone: ${entry.description}\n\n` + results.map(line => `   ${line}`).join("\n"),
+      data: { changeId: id, calendarId, results },
+    };
+  } catch (error) {
+    logger.error("Error undoing change:", error);
+    return errorResult(error, account);
+  }
+}
+
+// === ACCESS POLICY ===
+
+// Replaced by the policy file at startup
+let policy: Policy = DEFAULT_POLICY;
+
+/**
+ * Check whether a calendar list entry may be shown, matching "primary" for the primary calendar
+ */
+function isCalendarVisible(cal: calendar_v3.Schema$CalendarListEntry): boolean {
+  return isCalendarAllowed(policy, ...(cal.primary ? [cal.id || "", "primary"] : [cal.id || ""]));
+}
+
+// Primary calendar ID of each account, looked up once
+const primaryCalendarIds = new Map<string, Promise<string>>();
+
+/**
+ * Find the primary calendar's address with only an events scope: the impersonated user of a
+ * service account, or the primary calendar's name, which is its owner's address
+ */
+async function guessPrimaryCalendarId(account: string, subject: string | undefined): Promise<string> {
+  if (subject) return subject;
+
+  const calendar = await getCalendar(account);
+  const response = await calendar.events.list({ calendarId: "primary", maxResults: 1 });
+  const summary = response.data.summary || "";
+  if (!summary.includes("@")) {
+    throw new Error("the primary calendar's address can't be read with the calendar.events scope alone; " +
+                    "add calendar.readonly to GOOGLE_CALENDAR_SCOPES");
+  }
+  return summary;
+}
+
+/**
+ * Look up the ID (the owner's address) of an account's primary calendar
+ */
+async function getPrimaryCalendarId(account: string): Promise<string> {
+  const { name, config } = await resolveAccount(account);
+  let lookup = primaryCalendarIds.get(name);
+  if (!lookup) {
+    lookup = canReadCalendars(SCOPES)
+      ? getCalendar(account)
+        .then(calendar => calendar.calendarList.get({ calendarId: "primary" }))
+        .then(response => response.data.id || "primary")
+      : guessPrimaryCalendarId(account, config.subject);
+    primaryCalendarIds.set(name, lookup);
+    // A failed lookup is tried again on the next call
+    lookup.catch(() => primaryCalendarIds.delete(name));
+  }
+  return lookup;
+}
+
+/**
+ * Throw unless the policy lets tools touch a calendar. "primary" and the primary calendar's
+ * address are the same calendar, so a rule naming either one applies to both.
+ */
+async function checkCalendarPolicy(calendarId: string, account: string = ""): Promise<void> {
+  if (!hasCalendarRules(policy)) return;
+
+  let primaryId: string;
+  try {
+    primaryId = await getPrimaryCalendarId(account);
+  } catch (error) {
+    throw new Error(`Could not look up the primary calendar to check ${calendarId} against the access policy: ` +
+                    (error instanceof Error ? error.message : String(error)));
+  }
+
+  const isPrimary = calendarId === "primary" || calendarId.toLowerCase() === primaryId.toLowerCase();
+  checkCalendarAllowed(policy, calendarId, ...(isPrimary ? [primaryId, "primary"] : []));
+}
+
+/**
+ * Check the calendars named in a tool call's parsed arguments against the policy
+ */
+async function checkToolCalendars(args: { [key: string]: unknown }): Promise<void> {
+  const account = typeof args.account === "string" ? args.account : "";
+
+  if (typeof args.calendarId === "string") {
+    await checkCalendarPolicy(args.calendarId, account);
+  }
+  if (typeof args.destinationCalendarId === "string" && args.destinationCalendarId) {
+    await checkCalendarPolicy(args.destinationCalendarId, account);
+  }
+  if (Array.isArray(args.calendarIds)) {
+    for (const id of args.calendarIds as string[]) {
+      await checkCalendarPolicy(id, account);
+    }
+  }
+}
+
+// === MCP SERVER SETUP ===
+
+// Shared by every tool: structured content is always returned, this picks the text body
+const FORMAT_FIELD = enumeration(
+  "Output format: human-readable text or JSON (default: text)",
+  ["text", "json"],
+  { default: "text" }
+);
+
+const ACCOUNT_FIELD = string("Account profile to act as, see list_accounts (default: the default account)");
+
+const CALENDAR_ID_FIELD = string("Calendar ID (default: primary)", { default: "primary" });
+
+/**
+ * sendUpdates option field; the default differs between tools
+ */
+function sendUpdatesField(defaultValue: SendUpdates) {
+  return enumeration(
+    `Who gets email notifications: all guests, only guests outside your domain, or nobody (default: ${defaultValue})`,
+    SEND_UPDATES,
+    { default: defaultValue }
+  );
+}
+
+const SCOPE_FIELD = enumeration(
+  "For recurring events: this instance only, this and following instances, or the whole series (default: instance)",
+  RECURRENCE_SCOPES,
+  { default: "instance" }
+);
+
+/**
+ * Time argument field; expressions are resolved by the tool, this only rejects ones that can't be parsed
+ */
+function dateField(description: string, required: boolean = false) {
+  return string(description, {
+    required,
+    validate: (value, name) => {
+      parseDateExpression(value, "UTC", name);
     },
-  },
-  {
-    name: "get_event",
-    description: "Get detailed information about a specific event",
-    inputSchema: {
-      type: "object",
-      properties: {
-        eventId: {
-          type: "string",
-          description: "Event ID",
-        },
-        calendarId: {
-          type: "string",
-          description: "Calendar ID (default: primary)",
-        },
-      },
-      required: ["eventId"],
+  });
+}
+
+/**
+ * IANA time zone field
+ */
+function timeZoneField(description: string) {
+  return string(description, {
+    validate: value => {
+      validateTimeZone(value);
     },
-  },
-];
+  });
+}
 
-// Handle tool listing
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
-});
+// Event options shared by create_event and update_event; any left out keep their current value
+const EVENT_OPTION_FIELDS = {
+  reminders: list(
+    "Reminders such as popup:10, email:1d or 30m (a popup); \"default\" for the calendar's reminders, \"none\" for none (optional)"
+  ),
+  colorId: string("Event color, by ID or name such as Tomato; see list_colors (optional)"),
+  visibility: optional(enumeration("Who can see the event's details (optional)", VISIBILITIES, { required: true })),
+  transparency: optional(enumeration(
+    "Whether the event blocks time: opaque shows as busy, transparent as free (optional)",
+    TRANSPARENCIES,
+    { required: true }
+  )),
+  guestsCanModify: optional(boolean("Whether guests can edit the event (optional)")),
+  guestsCanInviteOthers: optional(boolean("Whether guests can invite other people (optional)")),
+  guestsCanSeeOtherGuests: optional(boolean("Whether guests can see the guest list (optional)")),
+};
 
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "list_events": {
-        const maxResults = (args?.maxResults as string) || "10";
-        const calendarId = (args?.calendarId as string) || "primary";
-        const timeMin = (args?.timeMin as string) || "";
-        const timeMax = (args?.timeMax as string) || "";
-        return {
-          content: [
+/**
+ * Collect the event option arguments of a call
+ */
+function eventOptionsOf(args: EventOptions): EventOptions {
+  return {
+    reminders: args.reminders,
+    colorId: args.colorId,
+    visibility: args.visibility,
+    transparency: args.transparency,
+    guestsCanModify: args.guestsCanModify,
+    guestsCanInviteOthers: args.guestsCanInviteOthers,
+    guestsCanSeeOtherGuests: args.guestsCanSeeOtherGuests,
+  };
+}
+
+const DRY_RUN_FIELD = boolean(
+  "Set to true to preview the change and who would be notified without making it; returns a confirmToken (default: false)"
+);
+
+const CONFIRM_TOKEN_FIELD = string("Token from a dry run of this exact call; carries it out (required in safe mode)");
+
+// Relative time arguments as they were resolved, keyed by argument name
+const RESOLVED_SCHEMA = {
+  type: "object",
+  additionalProperties: { type: "string" },
+};
+
+// Output fields added by dry runs of mutating tools
+const DRY_RUN_OUTPUT = {
+  dryRun: { type: "boolean" },
+  confirmToken: { type: "string" },
+  changes: arraySchema(
+    objectSchema({ field: { type: "string" }, before: { type: "string" }, after: { type: "string" } }, ["field"])
+  ),
+  notifications: { type: "string" },
+};
+
+interface ToolDefinition<T> {
+  name: string;
+  description: string;
+  input: InputSchema<T>;
+  outputSchema: Tool["outputSchema"];
+  // Changes calendar data; such tools support dryRun and confirmToken
+  mutating?: boolean;
+  // Works on calendars themselves, so it needs more than an events scope: "read" for the
+  // calendar list, settings and free/busy, "manage" to change calendars and their sharing
+  calendarAccess?: "read" | "manage";
+  run(args: T, dryRun: boolean): Promise<ToolResult>;
+}
+
+// Validated arguments of one call, bound to the tool that runs them
+interface ToolCall {
+  args: { [key: string]: unknown };
+  run(dryRun: boolean): Promise<ToolResult>;
+}
+
+interface RegisteredTool extends Omit<ToolDefinition<unknown>, "input" | "run"> {
+  inputSchema: InputSchema<unknown>["jsonSchema"];
+  // Validate arguments against the tool's schema; throws ValidationError
+  prepare(args: unknown): ToolCall;
+}
+
+/**
+ * Register a tool. Its implementation receives the arguments its own schema produces,
+ * so the two are type-checked against each other here.
+ */
+function defineTool<T extends { [key: string]: unknown }>(definition: ToolDefinition<T>): RegisteredTool {
+  const { input: schema, run, ...rest } = definition;
+  return {
+    ...rest,
+    inputSchema: schema.jsonSchema,
+    prepare(args) {
+      const parsed = schema.parse(args);
+      return { args: parsed, run: dryRun => run(parsed, dryRun) };
+    },
+  };
+}
+
+// Define available tools
+const TOOLS: RegisteredTool[] = [
+  defineTool({
+    name: "list_events",
+    description: "List upcoming calendar events",
+    input: input({
+      maxResults: integer("Maximum number of events to return (default: 10)", { default: 10, min: 1, max: 2500 }),
+      calendarId: CALENDAR_ID_FIELD,
+      timeMin: dateField("Start time: ISO 8601 or an expression like \"today\", \"next Monday\" (optional, default: now)"),
+      timeMax: dateField("End time: ISO 8601, an expression like \"Friday 6pm\", or an offset from timeMin like \"+7d\" (optional)"),
+      expandRecurring: boolean(
+        "Expand recurring events into individual instances (default: true); set to false to list each series once",
+        true
+      ),
+      pageToken: string("Cursor from a previous truncated result to fetch the next page (optional)"),
+      fetchAll: boolean(`Follow all pages within the range, up to ${MAX_FETCH_ALL_EVENTS} events (default: false)`),
+      timeZone: timeZoneField(
+        "IANA time zone for timeMin/timeMax expressions and times without an offset (default: the calendar's time zone)"
+      ),
+      eventTypes: list("Only list events of these types, e.g. outOfOffice, focusTime (default: all types)", {
+        values: LISTED_EVENT_TYPES,
+      }),
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        events: arraySchema(EVENT_SCHEMA),
+        nextPageToken: { type: "string" },
+        truncated: { type: "boolean" },
+        resolved: RESOLVED_SCHEMA,
+      },
+      ["events", "truncated"]
+    ),
+    run: args => listEvents(
+      args.maxResults,
+      args.calendarId,
+      args.timeMin,
+      args.timeMax,
+      args.expandRecurring,
+      args.pageToken,
+      args.fetchAll,
+      args.timeZone,
+      args.eventTypes,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "create_event",
+    description: "Create a new calendar event",
+    mutating: true,
+    input: input({
+      summary: string("Event title/summary (required for default events; other types get a default title)"),
+      start: dateField(
+        "Start time: ISO 8601 (without an offset it is local time in timeZone) or an expression like \"tomorrow 3pm\", \"next Monday 9:30\"; " +
+        "a date without a time such as 2025-12-24 makes an all-day event",
+        true
+      ),
+      end: dateField(
+        "End time: ISO 8601, an expression like \"tomorrow 4pm\", or an offset from start like \"+45m\". " +
+        "For all-day events, the last day (inclusive) or a number of days like \"+3d\"; defaults to one day. Required for timed events"
+      ),
+      description: string("Event description (optional)"),
+      location: string("Event location (optional)"),
+      attendees: list("Attendee emails, as a list or comma-separated (optional)"),
+      calendarId: CALENDAR_ID_FIELD,
+      timeZone: timeZoneField(
+        "IANA time zone for start/end without a UTC offset, e.g. America/Sao_Paulo (default: the calendar's time zone)"
+      ),
+      recurrence: list(
+        "Recurrence rules, as a list or one per line, e.g. RRULE:FREQ=WEEKLY;BYDAY=MO,WE (optional)",
+        { separator: /\r?\n/ }
+      ),
+      exceptDates: list("Occurrences to skip (EXDATE), as local start times or YYYY-MM-DD (optional)"),
+      addMeet: boolean("Set to true to attach a Google Meet video link (default: false)"),
+      ...EVENT_OPTION_FIELDS,
+      eventType: enumeration<EventType>(
+        "Kind of event: an ordinary one, an out-of-office or focus time block, or where you work that day (default: default)",
+        EVENT_TYPES,
+        { default: "default" }
+      ),
+      autoDecline: optional(enumeration(
+        "For outOfOffice/focusTime: which conflicting invitations to decline " +
+        "(default: all for outOfOffice, new ones for focusTime)",
+        AUTO_DECLINE_MODES,
+        { required: true }
+      )),
+      declineMessage: string("For outOfOffice/focusTime: message sent with declined invitations (optional)"),
+      chatStatus: optional(enumeration("For focusTime: Google Chat status (default: doNotDisturb)", CHAT_STATUSES, { required: true })),
+      workingLocation: optional(enumeration(
+        "For workingLocation events: home, an office, or another place (required for them)",
+        WORKING_LOCATION_TYPES,
+        { required: true }
+      )),
+      workingLocationLabel: string("For workingLocation events: the office or place name (required for customLocation)"),
+      sendUpdates: sendUpdatesField("none"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        event: EVENT_SCHEMA,
+        resolved: RESOLVED_SCHEMA,
+        ...DRY_RUN_OUTPUT,
+      },
+      ["event"]
+    ),
+    run: (args, dryRun) => createEvent(
+      args.summary,
+      args.start,
+      args.end,
+      args.description,
+      args.location,
+      args.attendees,
+      args.calendarId,
+      args.timeZone,
+      args.recurrence,
+      args.exceptDates,
+      args.sendUpdates,
+      args.addMeet,
+      eventOptionsOf(args),
+      {
+        eventType: args.eventType,
+        autoDecline: args.autoDecline,
+        declineMessage: args.declineMessage,
+        chatStatus: args.chatStatus,
+        workingLocation: args.workingLocation,
+        workingLocationLabel: args.workingLocationLabel,
+      },
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "update_event",
+    description: "Update an existing calendar event; only the fields given are changed",
+    mutating: true,
+    input: input({
+      eventId: string("Event ID to update", { required: true }),
+      summary: string("New event title/summary (optional)"),
+      start: dateField("New start time: ISO 8601 or an expression like \"tomorrow 3pm\"; a date without a time makes the event all-day (optional)"),
+      end: dateField("New end time: ISO 8601, an expression, or an offset from the start like \"+1h\"; for all-day events the last day (inclusive) (optional)"),
+      description: string("New event description (optional)"),
+      location: string("New event location (optional)"),
+      clear: list("Fields to remove from the event or reset to the calendar default (optional); fields not given are left unchanged", {
+        values: CLEARABLE_FIELDS,
+      }),
+      calendarId: CALENDAR_ID_FIELD,
+      timeZone: timeZoneField("IANA time zone for start/end without a UTC offset (default: the event's current time zone)"),
+      scope: SCOPE_FIELD,
+      etag: string("ETag from get_event; the update fails if the event has changed since (optional)"),
+      addMeet: boolean("Set to true to attach a Google Meet video link (default: false)"),
+      ...EVENT_OPTION_FIELDS,
+      sendUpdates: sendUpdatesField("none"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        scope: { type: "string" },
+        event: EVENT_SCHEMA,
+        previousSeriesId: { type: "string" },
+        resolved: RESOLVED_SCHEMA,
+        ...DRY_RUN_OUTPUT,
+      },
+      ["event"]
+    ),
+    run: (args, dryRun) => updateEvent(
+      args.eventId,
+      args.summary,
+      args.start,
+      args.end,
+      args.description,
+      args.location,
+      args.clear,
+      args.calendarId,
+      args.timeZone,
+      args.scope,
+      args.etag,
+      args.sendUpdates,
+      args.addMeet,
+      eventOptionsOf(args),
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "delete_event",
+    description: "Delete a calendar event",
+    mutating: true,
+    input: input({
+      eventId: string("Event ID to delete", { required: true }),
+      calendarId: CALENDAR_ID_FIELD,
+      scope: SCOPE_FIELD,
+      sendUpdates: sendUpdatesField("none"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        eventId: { type: "string" },
+        scope: { type: "string" },
+        seriesId: { type: "string" },
+        seriesUntil: { type: "string" },
+        ...DRY_RUN_OUTPUT,
+      },
+      ["eventId"]
+    ),
+    run: (args, dryRun) => deleteEvent(args.eventId, args.calendarId, args.scope, args.sendUpdates, dryRun, args.account),
+  }),
+  defineTool({
+    name: "move_event",
+    description: "Move an event, or a whole recurring series, to another calendar; it keeps its ID",
+    mutating: true,
+    input: input({
+      eventId: string("Event ID to move (for a recurring event, the series ID)", { required: true }),
+      calendarId: string("Calendar the event is on (default: primary)", { default: "primary" }),
+      destinationCalendarId: string("Calendar ID to move the event to", { required: true }),
+      sendUpdates: sendUpdatesField("none"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        destinationCalendarId: { type: "string" },
+        changeId: { type: "string" },
+        event: EVENT_SCHEMA,
+        ...DRY_RUN_OUTPUT,
+      },
+      ["calendarId", "destinationCalendarId"]
+    ),
+    run: (args, dryRun) => moveEvent(
+      args.eventId,
+      args.calendarId,
+      args.destinationCalendarId,
+      args.sendUpdates,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "batch_events",
+    description: "Create, update, delete or move many events in one call, listed as items or selected by a query " +
+                 "over a time range; reports how each event went",
+    mutating: true,
+    input: input({
+      operation: enumeration<BatchOperation>(
+        "What to do with each event: create, update, delete or move",
+        BATCH_OPERATIONS,
+        { required: true }
+      ),
+      items: objectList(
+        "Events to act on, each with the arguments of create_event, update_event, delete_event or move_event, " +
+        `e.g. [{"eventId": "abc123"}] (at most ${MAX_BATCH_ITEMS}; or select events with timeMin/timeMax)`,
+        { max: MAX_BATCH_ITEMS }
+      ),
+      shared: object(
+        "Arguments for every item unless the item sets them, e.g. {\"location\": \"Room 4\"} for update or " +
+        "{\"destinationCalendarId\": \"team@group.calendar.google.com\"} for move (optional)"
+      ),
+      calendarId: CALENDAR_ID_FIELD,
+      query: string("Only select events matching this text within timeMin/timeMax (optional)"),
+      timeMin: dateField("Start of the range to select events from instead of listing items, ISO 8601 or an expression like \"today\""),
+      timeMax: dateField("End of the range to select events from, ISO 8601, an expression, or an offset from timeMin like \"+7d\""),
+      timeZone: timeZoneField("IANA time zone for timeMin/timeMax expressions (default: the calendar's time zone)"),
+      concurrency: integer("How many events to work on at once (default: 5)", { default: 5, min: 1, max: 10 }),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        operation: { type: "string", enum: BATCH_OPERATIONS },
+        succeeded: { type: "integer" },
+        failed: { type: "integer" },
+        results: arraySchema(
+          objectSchema(
             {
-              type: "text",
-              text: await listEvents(maxResults, calendarId, timeMin, timeMax),
+              index: { type: "integer" },
+              ok: { type: "boolean" },
+              eventId: { type: "string" },
+              changeId: { type: "string" },
+              error: { type: "string" },
+              result: { type: "object" },
             },
-          ],
-        };
-      }
-
-      case "create_event": {
-        const summary = (args?.summary as string) || "";
-        const start = (args?.start as string) || "";
-        const end = (args?.end as string) || "";
-        const description = (args?.description as string) || "";
-        const location = (args?.location as string) || "";
-        const attendees = (args?.attendees as string) || "";
-        const calendarId = (args?.calendarId as string) || "primary";
-        return {
-          content: [
+            ["index", "ok"]
+          )
+        ),
+        ...DRY_RUN_OUTPUT,
+      },
+      ["operation", "succeeded", "failed", "results"]
+    ),
+    run: (args, dryRun) => batchEvents(
+      args.operation,
+      args.items,
+      args.shared,
+      args.calendarId,
+      args.query,
+      args.timeMin,
+      args.timeMax,
+      args.timeZone,
+      args.concurrency,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "manage_attendees",
+    description: "Add or remove attendees of an event, or mark them optional or required",
+    mutating: true,
+    input: input({
+      eventId: string("Event ID", { required: true }),
+      calendarId: CALENDAR_ID_FIELD,
+      add: list("Emails to invite, as a list or comma-separated (optional)"),
+      remove: list("Emails to remove from the guest list (optional)"),
+      optional: list("Emails to mark as optional attendees (optional)"),
+      required: list("Emails to mark as required attendees (optional)"),
+      sendUpdates: sendUpdatesField("all"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        sendUpdates: { type: "string" },
+        added: arraySchema({ type: "string" }),
+        removed: arraySchema({ type: "string" }),
+        event: EVENT_SCHEMA,
+        ...DRY_RUN_OUTPUT,
+      },
+      ["sendUpdates", "event"]
+    ),
+    run: (args, dryRun) => manageAttendees(
+      args.eventId,
+      args.calendarId,
+      args.add,
+      args.remove,
+      args.optional,
+      args.required,
+      args.sendUpdates,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "respond_to_event",
+    description: "Accept, decline or tentatively accept an event you were invited to, optionally with a comment",
+    mutating: true,
+    input: input({
+      eventId: string("Event ID", { required: true }),
+      response: enumeration("Your answer", RESPONSE_STATUSES, { required: true }),
+      comment: string("Note to the organizer (optional)"),
+      calendarId: CALENDAR_ID_FIELD,
+      sendUpdates: sendUpdatesField("all"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        responseStatus: { type: "string" },
+        sendUpdates: { type: "string" },
+        event: EVENT_SCHEMA,
+        ...DRY_RUN_OUTPUT,
+      },
+      ["responseStatus", "sendUpdates", "event"]
+    ),
+    run: (args, dryRun) => respondToEvent(
+      args.eventId,
+      args.response,
+      args.comment,
+      args.calendarId,
+      args.sendUpdates,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "search_events",
+    description: "Search for events by keyword",
+    input: input({
+      query: string("Search query", { required: true }),
+      maxResults: integer("Maximum number of results (default: 10)", { default: 10, min: 1, max: 2500 }),
+      calendarId: CALENDAR_ID_FIELD,
+      pageToken: string("Cursor from a previous truncated result to fetch the next page (optional)"),
+      fetchAll: boolean(`Follow all pages within the range, up to ${MAX_FETCH_ALL_EVENTS} events (default: false)`),
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        query: { type: "string" },
+        events: arraySchema(EVENT_SCHEMA),
+        nextPageToken: { type: "string" },
+        truncated: { type: "boolean" },
+      },
+      ["events", "truncated"]
+    ),
+    run: args => searchEvents(args.query, args.maxResults, args.calendarId, args.pageToken, args.fetchAll, args.account),
+  }),
+  defineTool({
+    name: "list_calendars",
+    description: "List all available calendars",
+    calendarAccess: "read",
+    input: input({
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendars: arraySchema(CALENDAR_SCHEMA) }, ["calendars"]),
+    run: args => listCalendars(args.account),
+  }),
+  defineTool({
+    name: "create_calendar",
+    description: "Create a secondary calendar",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      summary: string("Calendar name", { required: true }),
+      description: string("Calendar description (optional)"),
+      location: string("Geographic location of the calendar (optional)"),
+      timeZone: timeZoneField("IANA time zone of the calendar (default: the primary calendar's time zone)"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendar: CALENDAR_SCHEMA, ...DRY_RUN_OUTPUT }, ["calendar"]),
+    run: (args, dryRun) => createCalendar(
+      args.summary,
+      args.description,
+      args.location,
+      args.timeZone,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "update_calendar",
+    description: "Change a calendar's name, description, location or time zone",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      calendarId: string("Calendar ID", { required: true }),
+      summary: string("New calendar name (optional)"),
+      description: string("New calendar description (optional)"),
+      location: string("New geographic location (optional)"),
+      timeZone: timeZoneField("New IANA time zone of the calendar (optional)"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendar: CALENDAR_SCHEMA, ...DRY_RUN_OUTPUT }, ["calendar"]),
+    run: (args, dryRun) => updateCalendar(
+      args.calendarId,
+      args.summary,
+      args.description,
+      args.location,
+      args.timeZone,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "delete_calendar",
+    description: "Delete a secondary calendar and every event on it; this can't be undone",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      calendarId: string("Calendar ID", { required: true }),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendarId: { type: "string" }, ...DRY_RUN_OUTPUT }, ["calendarId"]),
+    run: (args, dryRun) => deleteCalendar(args.calendarId, dryRun, args.account),
+  }),
+  defineTool({
+    name: "subscribe_calendar",
+    description: "Add a calendar shared with you, or a public one, to your calendar list",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      calendarId: string("Calendar ID, e.g. a colleague's email or en.usa#holiday@group.v.calendar.google.com", { required: true }),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendar: CALENDAR_SCHEMA, ...DRY_RUN_OUTPUT }, ["calendar"]),
+    run: (args, dryRun) => subscribeCalendar(args.calendarId, dryRun, args.account),
+  }),
+  defineTool({
+    name: "unsubscribe_calendar",
+    description: "Remove a calendar from your calendar list without changing the calendar itself",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      calendarId: string("Calendar ID", { required: true }),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendarId: { type: "string" }, ...DRY_RUN_OUTPUT }, ["calendarId"]),
+    run: (args, dryRun) => unsubscribeCalendar(args.calendarId, dryRun, args.account),
+  }),
+  defineTool({
+    name: "list_calendar_sharing",
+    description: "List who a calendar is shared with and at which role (its ACL rules)",
+    calendarAccess: "manage",
+    input: input({
+      calendarId: CALENDAR_ID_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendarId: { type: "string" }, rules: arraySchema(ACL_RULE_SCHEMA) }, ["rules"]),
+    run: args => listCalendarSharing(args.calendarId, args.account),
+  }),
+  defineTool({
+    name: "manage_calendar_sharing",
+    description: "Share a calendar with users, groups or domains at a role, or stop sharing it with them",
+    calendarAccess: "manage",
+    mutating: true,
+    input: input({
+      calendarId: string("Calendar ID", { required: true }),
+      add: list(
+        "Who to share with or change the role of: emails, domains such as example.com, group:<email>, or default for anyone (optional)"
+      ),
+      remove: list("Who to stop sharing with, in the same form as add (optional)"),
+      role: enumeration(
+        "Role given to everyone in add: see free/busy only, see event details, make changes, or also manage sharing (default: reader)",
+        ACL_ROLES,
+        { default: "reader" }
+      ),
+      sendNotifications: boolean("Whether Google emails people the calendar is newly shared with (default: true)", true),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        rules: arraySchema(ACL_RULE_SCHEMA),
+        ...DRY_RUN_OUTPUT,
+      },
+      ["rules"]
+    ),
+    run: (args, dryRun) => manageCalendarSharing(
+      args.calendarId,
+      args.add,
+      args.remove,
+      args.role,
+      args.sendNotifications,
+      dryRun,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "list_colors",
+    description: "List the colors events can be given, with their IDs and names, and the calendar colors",
+    calendarAccess: "read",
+    input: input({
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        event: arraySchema(
+          objectSchema(
+            { id: { type: "string" }, name: { type: "string" }, background: { type: "string" }, foreground: { type: "string" } },
+            ["id", "background", "foreground"]
+          )
+        ),
+        calendar: arraySchema(
+          objectSchema(
+            { id: { type: "string" }, background: { type: "string" }, foreground: { type: "string" } },
+            ["id", "background", "foreground"]
+          )
+        ),
+      },
+      ["event", "calendar"]
+    ),
+    run: args => listColors(args.account),
+  }),
+  defineTool({
+    name: "get_event",
+    description: "Get detailed information about a specific event",
+    input: input({
+      eventId: string("Event ID", { required: true }),
+      calendarId: CALENDAR_ID_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema({ calendarId: { type: "string" }, event: EVENT_SCHEMA }, ["event"]),
+    run: args => getEvent(args.eventId, args.calendarId, args.account),
+  }),
+  defineTool({
+    name: "find_free_slots",
+    description: "Find open time slots across multiple calendars and attendees using free/busy data, " +
+                 "best first: slots with the most free time around them, then the earliest",
+    calendarAccess: "read",
+    input: input({
+      calendarIds: list("Calendar IDs as returned by list_calendars, as a list or comma-separated (default: primary)", {
+        default: ["primary"],
+      }),
+      attendees: list("Attendee emails whose free/busy should also be checked (optional)"),
+      timeMin: dateField("Start of the search range: ISO 8601 or an expression like \"tomorrow 9am\" (default: now)"),
+      timeMax: dateField(
+        "End of the search range: ISO 8601, an expression like \"Friday 6pm\", or an offset from timeMin like \"+3d\"",
+        true
+      ),
+      durationMinutes: integer("Length of the slot to find in minutes (default: 30)", { default: 30, min: 1 }),
+      workingHoursStart: string("Earliest local start of day in HH:MM, e.g. 09:00 (optional)"),
+      workingHoursEnd: string("Latest local end of day in HH:MM, e.g. 17:00 (optional)"),
+      bufferMinutes: integer("Minutes to keep free before and after existing events (default: 0)", { default: 0, min: 0 }),
+      includeWeekends: boolean("Whether to suggest slots on Saturday and Sunday when working hours are set (default: false)"),
+      timeZone: timeZoneField("IANA time zone for working hours and output (default: the first calendar's time zone)"),
+      maxResults: integer("Maximum number of slots to return (default: 10)", { default: 10, min: 1 }),
+      orderBy: enumeration<SlotOrder>(
+        "best ranks slots with the most free time before and after them first; time lists them earliest first (default: best)",
+        SLOT_ORDERS,
+        { default: "best" }
+      ),
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        timeZone: { type: "string" },
+        durationMinutes: { type: "number" },
+        checked: arraySchema({ type: "string" }),
+        warnings: arraySchema({ type: "string" }),
+        slots: arraySchema(
+          objectSchema(
             {
-              type: "text",
-              text: await createEvent(summary, start, end, description, location, attendees, calendarId),
+              start: { type: "string" },
+              end: { type: "string" },
+              startUtc: { type: "string" },
+              endUtc: { type: "string" },
+              freeBeforeMinutes: { type: "number" },
+              freeAfterMinutes: { type: "number" },
             },
-          ],
-        };
-      }
-
-      case "update_event": {
-        const eventId = (args?.eventId as string) || "";
-        const summary = (args?.summary as string) || "";
-        const start = (args?.start as string) || "";
-        const end = (args?.end as string) || "";
-        const description = (args?.description as string) || "";
-        const location = (args?.location as string) || "";
-        const calendarId = (args?.calendarId as string) || "primary";
-        return {
-          content: [
+            ["start", "end", "startUtc", "endUtc"]
+          )
+        ),
+      },
+      ["timeZone", "slots"]
+    ),
+    run: args => findFreeSlots(
+      args.calendarIds,
+      args.attendees,
+      args.timeMin,
+      args.timeMax,
+      args.durationMinutes,
+      args.workingHoursStart,
+      args.workingHoursEnd,
+      args.bufferMinutes,
+      args.includeWeekends,
+      args.timeZone,
+      args.maxResults,
+      args.orderBy,
+      args.account
+    ),
+  }),
+  defineTool({
+    name: "export_events",
+    description: "Export a calendar's events in a time range as iCalendar (.ics), including recurrence rules, attendees and time zones",
+    input: input({
+      calendarId: CALENDAR_ID_FIELD,
+      timeMin: dateField("Start of the range: ISO 8601 or an expression like \"today\" (default: now)"),
+      timeMax: dateField("End of the range: ISO 8601, an expression, or an offset from timeMin like \"+30d\"", true),
+      timeZone: timeZoneField("IANA time zone for timeMin/timeMax and for events without their own (default: the calendar's time zone)"),
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        eventCount: { type: "number" },
+        truncated: { type: "boolean" },
+        ics: { type: "string" },
+        resolved: RESOLVED_SCHEMA,
+      },
+      ["eventCount", "truncated", "ics"]
+    ),
+    run: args => exportEvents(args.calendarId, args.timeMin, args.timeMax, args.timeZone, args.account),
+  }),
+  defineTool({
+    name: "import_ics",
+    description: "Import events from iCalendar (.ics) data; events already imported (same UID) are updated rather than duplicated",
+    mutating: true,
+    input: input({
+      ics: string("Contents of the .ics file", { required: true }),
+      calendarId: CALENDAR_ID_FIELD,
+      timeZone: timeZoneField("IANA time zone for times without one in the file (default: the calendar's time zone)"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        changeId: { type: "string" },
+        events: arraySchema(
+          objectSchema(
             {
-              type: "text",
-              text: await updateEvent(eventId, summary, start, end, description, location, calendarId),
+              iCalUID: { type: "string" },
+              summary: { type: "string" },
+              action: { type: "string", enum: ["create", "update", "delete"] },
+              eventId: { type: "string" },
+              error: { type: "string" },
             },
-          ],
-        };
-      }
-
-      case "delete_event": {
-        const eventId = (args?.eventId as string) || "";
-        const calendarId = (args?.calendarId as string) || "primary";
-        return {
-          content: [
+            ["iCalUID", "summary", "action"]
+          )
+        ),
+        warnings: arraySchema({ type: "string" }),
+        ...DRY_RUN_OUTPUT,
+      },
+      ["events"]
+    ),
+    run: (args, dryRun) => importIcs(args.ics, args.calendarId, args.timeZone, dryRun, args.account),
+  }),
+  defineTool({
+    name: "get_changes_since",
+    description: "Report events added, changed or cancelled since the last call for a calendar, using incremental sync",
+    input: input({
+      calendarId: CALENDAR_ID_FIELD,
+      reset: boolean("Discard the stored sync token and establish a new baseline (default: false)"),
+      account: ACCOUNT_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        calendarId: { type: "string" },
+        since: { type: "string" },
+        baseline: { type: "boolean" },
+        expired: { type: "boolean" },
+        added: arraySchema(EVENT_SCHEMA),
+        changed: arraySchema(EVENT_SCHEMA),
+        cancelled: arraySchema(EVENT_SCHEMA),
+      },
+      ["calendarId", "baseline", "added", "changed", "cancelled"]
+    ),
+    run: args => getChangesSince(args.calendarId, args.reset, args.account),
+  }),
+  defineTool({
+    name: "list_recent_changes",
+    description: "List recent changes made through this server, with the change IDs undo_change takes",
+    input: input({
+      maxResults: integer("Maximum number of changes to return (default: 10)", {
+        default: 10,
+        min: 1,
+        max: MAX_JOURNAL_ENTRIES,
+      }),
+      account: string("Only list changes made as this account (default: all accounts)"),
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        changes: arraySchema(
+          objectSchema(
             {
-              type: "text",
-              text: await deleteEvent(eventId, calendarId),
+              id: { type: "string" },
+              timestamp: { type: "string" },
+              tool: { type: "string" },
+              account: { type: "string" },
+              calendarId: { type: "string" },
+              description: { type: "string" },
+              eventIds: arraySchema({ type: "string" }),
+              undone: { type: "boolean" },
+              undoneAt: { type: "string" },
             },
-          ],
-        };
-      }
-
-      case "search_events": {
-        const query = (args?.query as string) || "";
-        const maxResults = (args?.maxResults as string) || "10";
-        const calendarId = (args?.calendarId as string) || "primary";
-        return {
-          content: [
+            ["id", "timestamp", "tool", "description", "undone"]
+          )
+        ),
+      },
+      ["changes"]
+    ),
+    run: args => listRecentChanges(args.maxResults, args.account),
+  }),
+  defineTool({
+    name: "undo_change",
+    description: "Undo a change from list_recent_changes: delete created events, restore edited ones and recreate deleted ones",
+    mutating: true,
+    input: input({
+      changeId: string("Change ID from list_recent_changes or from the result of the change", { required: true }),
+      force: boolean("Undo even if the events were edited again since, discarding those edits (default: false)"),
+      sendUpdates: sendUpdatesField("none"),
+      dryRun: DRY_RUN_FIELD,
+      confirmToken: CONFIRM_TOKEN_FIELD,
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        changeId: { type: "string" },
+        calendarId: { type: "string" },
+        results: arraySchema({ type: "string" }),
+        ...DRY_RUN_OUTPUT,
+      },
+      ["changeId", "results"]
+    ),
+    run: (args, dryRun) => undoChange(args.changeId, args.force, args.sendUpdates, dryRun),
+  }),
+  defineTool({
+    name: "list_accounts",
+    description: "List the configured account profiles that tools can act as",
+    input: input({
+      format: FORMAT_FIELD,
+    }),
+    outputSchema: objectSchema(
+      {
+        defaultAccount: { type: "string" },
+        accounts: arraySchema(
+          objectSchema(
             {
-              type: "text",
-              text: await searchEvents(query, maxResults, calendarId),
+              name: { type: "string" },
+              type: { type: "string" },
+              isDefault: { type: "boolean" },
+              credentialsPath: { type: "string" },
+              tokenPath: { type: "string" },
+              subject: { type: "string" },
+              authorized: { type: "boolean" },
             },
-          ],
-        };
-      }
+            ["name", "isDefault", "credentialsPath", "authorized"]
+          )
+        ),
+      },
+      ["defaultAccount", "accounts"]
+    ),
+    run: () => listAccounts(),
+  }),
+];
 
-      case "list_calendars": {
-        return {
-          content: [
-            {
-              type: "text",
-              text: await listCalendars(),
-            },
-          ],
-        };
-      }
+// Handle tool listing
+async function handleListTools() {
+  const tools: Tool[] = TOOLS.filter(isToolEnabled).map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    outputSchema: tool.outputSchema,
+  }));
+  return { tools };
+}
 
-      case "get_event": {
-        const eventId = (args?.eventId as string) || "";
-        const calendarId = (args?.calendarId as string) || "primary";
-        return {
-          content: [
-            {
-              type: "text",
-              text: await getEvent(eventId, calendarId),
-            },
-          ],
-        };
-      }
+/**
+ * Convert a tool result to an MCP response in the requested format.
+ * Structured content is always attached; "json" also makes it the text body.
+ */
+function toCallToolResult(result: ToolResult, format: string) {
+  const text = format === "json" && result.data
+    ? JSON.stringify(result.data, null, 2)
+    : result.text;
+
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text,
+      },
+    ],
+    ...(result.isError ? { isError: true } : { structuredContent: result.data }),
+  };
+}
+
+/**
+ * Report every invalid argument of a call; with format "json" the issues are the text body
+ */
+function validationErrorResult(name: string, error: ValidationError): ToolResult {
+  return {
+    text: `❌ Invalid arguments for ${name}:\n` +
+          error.issues.map(issue => `   • ${issue.field}: ${issue.message}`).join("\n"),
+    data: { error: "invalid_arguments", issues: error.issues },
+    isError: true,
+  };
+}
+
+/**
+ * Check whether the policy lets a tool be offered and called
+ */
+function isToolEnabled(tool: RegisteredTool): boolean {
+  if (tool.calendarAccess === "read" && !canReadCalendars(SCOPES)) return false;
+  if (tool.calendarAccess === "manage" && !canManageCalendars(SCOPES)) return false;
+  return isToolAllowed(policy, tool.name, !!tool.mutating);
+}
+
+/**
+ * Decide whether a mutating call is only previewed. A confirmToken from a matching dry run
+ * lets it through (and is claimed until the call finishes); in safe mode nothing changes without one.
+ */
+function resolveDryRun(tool: RegisteredTool, args: { [key: string]: unknown }): boolean {
+  if (!tool.mutating) return false;
+  if (args.dryRun === true) return true;
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  const token = (args.confirmToken as string) || "";
+  if (token) {
+    claimConfirmToken(token, tool.name, args);
+    return false;
+  }
+  return SAFE_MODE;
+}
+
+/**
+ * Attach a confirmToken to a dry-run result so the previewed call can be carried out
+ */
+function withConfirmToken(name: string, args: { [key: string]: unknown }, result: ToolResult): ToolResult {
+  if (result.isError || !result.data?.dryRun) return result;
+
+  const token = issueConfirmToken(name, args);
+  return {
+    text: `${result.text}\n\n🔐 To go ahead, repeat this call with "confirmToken": "${token}" ` +
+          `(valid for ${CONFIRM_TOKEN_TTL_MINUTES} minutes)`,
+    data: { ...result.data, confirmToken: token },
+  };
+}
+
+// Handle tool execution
+async function handleCallTool(request: CallToolRequest) {
+  const { name, arguments: rawArgs } = request.params;
+  // Known before validation, so invalid arguments can be reported as JSON too
+  const requestedFormat = rawArgs?.format === "json" ? "json" : "text";
+
+  try {
+    const tool = TOOLS.find(candidate => candidate.name === name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    if (!isToolEnabled(tool)) {
+      throw new Error(`Tool ${name} is disabled by the access policy`);
     }
+
+    const call = tool.prepare(rawArgs);
+    const args = call.args;
+    await checkToolCalendars(args);
+
+    const dryRun = resolveDryRun(tool, args);
+    const token = tool.mutating && !dryRun ? (args.confirmToken as string) || "" : "";
+    let result: ToolResult | undefined;
+    try {
+      result = await call.run(dryRun);
+    } finally {
+      if (token) releaseConfirmToken(token, !!result && !result.isError);
+    }
+    return toCallToolResult(tool.mutating ? withConfirmToken(name, args, result) : result, args.format as string);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      logger.warn(`Invalid arguments for tool ${name}: ${error.message}`);
+      return toCallToolResult(validationErrorResult(name, error), requestedFormat);
+    }
+
     logger.error(`Error executing tool ${name}:`, error);
     return {
       content: [
@@ -778,27 +4633,355 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
+
+// === MCP RESOURCES ===
+
+const CALENDARS_URI = "gcal://calendars";
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "gcal://calendars/{calendarId}/events{?timeMin,timeMax,maxResults,account}",
+    name: "Calendar events",
+    description: "Events of a calendar, upcoming by default or within timeMin/timeMax (ISO 8601), " +
+                 "of the default account unless one is named",
+    mimeType: "text/plain",
+  },
+  {
+    uriTemplate: "gcal://events/{calendarId}/{eventId}{?account}",
+    name: "Event details",
+    description: "Details of a single event, of the default account unless one is named",
+    mimeType: "text/plain",
+  },
+];
+
+/**
+ * Build the URI of a calendar's event listing
+ */
+function calendarEventsUri(calendarId: string): string {
+  return `gcal://calendars/${encodeURIComponent(calendarId)}/events`;
+}
+
+// Every URI may name an account profile with ?account=; without it the default profile is used
+type ResourceTarget =
+  | { kind: "calendars"; account: string }
+  | { kind: "events"; account: string; calendarId: string; params: URLSearchParams }
+  | { kind: "event"; account: string; calendarId: string; eventId: string };
+
+/**
+ * Parse a gcal:// URI into what it points at
+ */
+function parseResourceUri(uri: string): ResourceTarget {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+
+  const segments = url.pathname.split("/").filter(segment => segment !== "").map(decodeURIComponent);
+  const account = url.searchParams.get("account") || "";
+
+  if (url.protocol === "gcal:" && url.hostname === "calendars") {
+    if (segments.length === 0) {
+      return { kind: "calendars", account };
+    }
+    if (segments.length === 2 && segments[1] === "events") {
+      return { kind: "events", account, calendarId: segments[0], params: url.searchParams };
+    }
+  }
+
+  if (url.protocol === "gcal:" && url.hostname === "events" && segments.length === 2) {
+    return { kind: "event", account, calendarId: segments[0], eventId: segments[1] };
+  }
+
+  throw new Error(`Unknown resource: ${uri}`);
+}
+
+/**
+ * Resolve a gcal:// URI to the tool function that renders it
+ */
+async function readResource(uri: string): Promise<ToolResult> {
+  const target = parseResourceUri(uri);
+  if (target.kind !== "calendars") {
+    await checkCalendarPolicy(target.calendarId, target.account);
+  }
+
+  switch (target.kind) {
+    case "calendars":
+      return listCalendars(target.account);
+    case "events":
+      return listEvents(
+        parseInt(target.params.get("maxResults") || "") || 50,
+        target.calendarId,
+        target.params.get("timeMin") || "",
+        target.params.get("timeMax") || "",
+        true,
+        "",
+        false,
+        "",
+        [],
+        target.account
+      );
+    case "event":
+      return getEvent(target.eventId, target.calendarId, target.account);
+  }
+}
+
+// Handle resource listing: the calendar list plus the upcoming events of each calendar, for the
+// default account (other accounts' calendars are reached by adding ?account= to the templates)
+async function handleListResources() {
+  // Without the calendar list only the primary calendar is known
+  if (!canReadCalendars(SCOPES)) {
+    const resources: Resource[] = isCalendarAllowed(policy, "primary") ? [{
+      uri: calendarEventsUri("primary"),
+      name: "Primary calendar events",
+      description: "Upcoming events in the primary calendar",
+      mimeType: "text/plain",
+    }] : [];
+    return { resources };
+  }
+
+  const resources: Resource[] = [
+    {
+      uri: CALENDARS_URI,
+      name: "Calendars",
+      description: "All calendars available to this account",
+      mimeType: "text/plain",
+    },
+  ];
+
+  try {
+    const calendar = await getCalendar();
+    const response = await calendar.calendarList.list();
+
+    for (const cal of response.data.items || []) {
+      if (!cal.id || !isCalendarVisible(cal)) continue;
+      resources.push({
+        uri: calendarEventsUri(cal.id),
+        name: `${cal.summary || cal.id} events`,
+        description: `Upcoming events in ${cal.summary || cal.id}`,
+        mimeType: "text/plain",
+      });
+    }
+  } catch (error) {
+    logger.warn("Could not list calendars for resources:", error);
+  }
+
+  return { resources };
+}
+
+// Handle resource template listing
+async function handleListResourceTemplates() {
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+}
+
+// Handle resource reads
+async function handleReadResource(request: ReadResourceRequest) {
+  const { uri } = request.params;
+  logger.info(`Reading resource: ${uri}`);
+
+  const result = await readResource(uri);
+  if (result.isError) {
+    throw new Error(result.text);
+  }
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "text/plain",
+        text: result.text,
+      },
+    ],
+  };
+}
+
+// === RESOURCE SUBSCRIPTIONS ===
+
+// Subscribed resource URIs per connected server, and the poller's own sync tokens
+// (kept apart from get_changes_since so neither consumes the other's changes)
+const subscriptions = new Map<Server, Set<string>>();
+const pollTokens: SyncTokens = new Map();
+let polling = false;
+
+/**
+ * Sync every subscribed calendar and notify clients about resources that changed
+ */
+async function pollSubscriptions(): Promise<void> {
+  if (polling || subscriptions.size === 0) return;
+  polling = true;
+
+  try {
+    const targets = [...subscriptions].flatMap(([server, uris]) =>
+      [...uris].map(uri => ({ server, uri, target: parseResourceUri(uri) }))
+    );
+    // Each calendar is synced once per account it is subscribed under
+    const feeds = new Map<string, { account: string; calendarId: string }>();
+    for (const { target } of targets) {
+      if (target.kind === "calendars") continue;
+      feeds.set(`${target.account}:${target.calendarId}`, { account: target.account, calendarId: target.calendarId });
+    }
+
+    for (const [key, { account, calendarId }] of feeds) {
+      try {
+        const calendar = await getCalendar(account);
+        const changes = await syncCalendar(calendar, calendarId, pollTokens, key);
+        // A fresh baseline has nothing to compare against, unless it replaced an expired token
+        if (changes.baseline && !changes.expired) continue;
+
+        const changedIds = new Set<string>();
+        for (const event of [...changes.added, ...changes.changed, ...changes.cancelled]) {
+          if (event.id) changedIds.add(event.id);
+          if (event.recurringEventId) changedIds.add(event.recurringEventId);
+        }
+        if (changedIds.size === 0 && !changes.expired) continue;
+
+        for (const { server, uri, target } of targets) {
+          if (target.kind === "calendars" || target.calendarId !== calendarId || target.account !== account) continue;
+          if (target.kind === "event" && !changes.expired && !changedIds.has(target.eventId)) continue;
+
+          logger.info(`Resource updated: ${uri}`);
+          await server.sendResourceUpdated({ uri });
+        }
+      } catch (error) {
+        logger.warn(`Polling ${calendarId} for changes failed:`, error);
+      }
+    }
+  } finally {
+    polling = false;
+  }
+}
+
+// Handle resource subscriptions
+async function handleSubscribe(server: Server, request: SubscribeRequest) {
+  const { uri } = request.params;
+  const target = parseResourceUri(uri);
+  // An unknown account fails here rather than on every poll
+  await resolveAccount(target.account);
+  if (target.kind !== "calendars") {
+    await checkCalendarPolicy(target.calendarId, target.account);
+  }
+
+  const uris = subscriptions.get(server) || new Set<string>();
+  uris.add(uri);
+  subscriptions.set(server, uris);
+
+  logger.info(`Subscribed to resource: ${uri}`);
+  return {};
+}
+
+async function handleUnsubscribe(server: Server, request: UnsubscribeRequest) {
+  subscriptions.get(server)?.delete(request.params.uri);
+  logger.info(`Unsubscribed from resource: ${request.params.uri}`);
+  return {};
+}
 
 // === SERVER STARTUP ===
 
+/**
+ * Create an MCP server with every handler registered.
+ * stdio mode uses a single server; HTTP mode creates one per client session.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "google-calendar",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {
+          subscribe: SYNC_POLL_SECONDS > 0,
+        },
+      },
+    }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+  server.setRequestHandler(CallToolRequestSchema, handleCallTool);
+  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, handleListResourceTemplates);
+  server.setRequestHandler(ReadResourceRequestSchema, handleReadResource);
+  server.setRequestHandler(SubscribeRequestSchema, (request) => handleSubscribe(server, request));
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => handleUnsubscribe(server, request));
+
+  server.onclose = () => {
+    subscriptions.delete(server);
+  };
+
+  return server;
+}
+
 async function main() {
   logger.info("Starting Google Calendar MCP server...");
 
-  // Check if credentials exist
+  let profiles: Accounts;
+  try {
+    profiles = await getAccounts();
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Check if credentials exist (service account keys need no token file)
+  for (const [name, config] of profiles.accounts) {
+    try {
+      const credentials = JSON.parse(await fs.readFile(config.credentialsPath, "utf-8"));
+      if (!isServiceAccount(credentials)) {
+        await fs.access(config.tokenPath);
+      }
+    } catch (error) {
+      if (name !== profiles.defaultAccount) {
+        logger.warn(`Account "${name}" is not set up yet; its tool calls will fail until it is authorized`);
+        continue;
+      }
+      logger.error("Credentials or token file not found!");
+      logger.error(`Expected credentials at: ${config.credentialsPath}`);
+      logger.error(`Expected token at: ${config.tokenPath}`);
+      logger.error("Please run the authentication setup first.");
+      process.exit(1);
+    }
+  }
+
   try {
-    await fs.access(CREDENTIALS_PATH);
-    await fs.access(TOKEN_PATH);
+    policy = await loadPolicy(POLICY_PATH, TOOLS.map(tool => tool.name));
   } catch (error) {
-    logger.error("Credentials or token file not found!");
-    logger.error(`Expected credentials at: ${CREDENTIALS_PATH}`);
-    logger.error(`Expected token at: ${TOKEN_PATH}`);
-    logger.error("Please run the authentication setup first.");
+    logger.error(error instanceof Error ? error.message : String(error));
     process.exit(1);
   }
+  if (isReadOnlyScopes(SCOPES) && !policy.readOnly) {
+    policy = { ...policy, readOnly: true };
+    logger.info("Read-only scopes configured; tools that change calendars are disabled");
+  }
+  const disabled = TOOLS.filter(tool => !isToolEnabled(tool)).map(tool => tool.name);
+  if (disabled.length > 0) {
+    logger.info(`Tools disabled by the access policy or OAuth scopes: ${disabled.join(", ")}`);
+  }
+
+  if (SYNC_POLL_SECONDS > 0) {
+    setInterval(pollSubscriptions, SYNC_POLL_SECONDS * 1000);
+    logger.info(`Polling subscribed calendars every ${SYNC_POLL_SECONDS}s`);
+  }
+
+  if (TRANSPORT === "http") {
+    await startHttpServer({
+      host: HTTP_HOST,
+      port: HTTP_PORT,
+      authToken: HTTP_AUTH_TOKEN,
+      createServer,
+      logger,
+    });
+    return;
+  }
+
+  if (TRANSPORT !== "stdio") {
+    throw new Error(`Unknown transport: ${TRANSPORT} (expected "stdio" or "http")`);
+  }
 
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
 
   logger.info("Google Calendar MCP server running on stdio");
 }
@@ -0,0 +1,90 @@
+/**
+ * Change journal
+ * Records every change made through the server with snapshots of the events before and after,
+ * so a change can be listed and rolled back later
+ */
+
+import { calendar_v3 } from "googleapis";
+import { randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import { writeFileAtomic } from "./files.js";
+
+// Oldest entries are dropped beyond this
+export const MAX_JOURNAL_ENTRIES = 200;
+
+export interface EventOperation {
+  action: "create" | "update" | "delete" | "move";
+  eventId: string;
+  // Event as it was before the change (absent for create)
+  before?: calendar_v3.Schema$Event;
+  // Event as the API returned it after the change (absent for delete)
+  after?: calendar_v3.Schema$Event;
+  // Calendar a moved event came from; the entry's calendarId is the one it was moved to
+  from?: string;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  account: string;
+  calendarId: string;
+  description: string;
+  // One change can touch several events, e.g. splitting a series; undone in reverse order
+  operations: EventOperation[];
+  undoneAt?: string;
+}
+
+/**
+ * Load the journal; a missing file means no changes have been recorded yet. A damaged one is
+ * moved aside and a new journal started, so it can't block every later change.
+ */
+export async function loadJournal(filePath: string, warn: (message: string) => void = () => {}): Promise<JournalEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  try {
+    const entries: unknown = JSON.parse(content);
+    if (!Array.isArray(entries)) {
+      throw new Error("expected a list of changes");
+    }
+    return entries as JournalEntry[];
+  } catch (error) {
+    const backupPath = `${filePath}.corrupt-${Date.now()}`;
+    await fs.rename(filePath, backupPath);
+    warn(`Change journal ${filePath} could not be parsed (${error instanceof Error ? error.message : String(error)}); ` +
+         `moved it to ${backupPath} and started a new journal`);
+    return [];
+  }
+}
+
+/**
+ * Persist the journal atomically
+ */
+export async function saveJournal(filePath: string, entries: JournalEntry[]): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(entries, null, 2));
+}
+
+/**
+ * Append an entry, trimming the journal to its maximum size
+ */
+export function appendEntry(
+  entries: JournalEntry[],
+  entry: Omit<JournalEntry, "id" | "timestamp">
+): JournalEntry {
+  const recorded: JournalEntry = {
+    id: randomUUID().slice(0, 8),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  entries.push(recorded);
+  entries.splice(0, Math.max(entries.length - MAX_JOURNAL_ENTRIES, 0));
+  return recorded;
+}
@@ -0,0 +1,181 @@
+/**
+ * Event options
+ * Reminders, color, visibility, free/busy status and guest permissions of an event
+ */
+
+import { calendar_v3 } from "googleapis";
+
+export type Visibility = "default" | "public" | "private" | "confidential";
+export type Transparency = "opaque" | "transparent";
+
+type Reminders = NonNullable<calendar_v3.Schema$Event["reminders"]>;
+
+export const VISIBILITIES: Visibility[] = ["default", "public", "private", "confidential"];
+export const TRANSPARENCIES: Transparency[] = ["opaque", "transparent"];
+
+// API limits: reminders at most four weeks ahead, five per event
+const MAX_REMINDER_MINUTES = 40320;
+const MAX_REMINDERS = 5;
+
+const REMINDER_UNITS: Record<string, number> = { m: 1, min: 1, h: 60, hr: 60, d: 1440, w: 10080 };
+
+// Names Google Calendar shows for the event color IDs; the Colors API only returns hex values
+export const EVENT_COLOR_NAMES: Record<string, string> = {
+  "1": "Lavender",
+  "2": "Sage",
+  "3": "Grape",
+  "4": "Flamingo",
+  "5": "Banana",
+  "6": "Tangerine",
+  "7": "Peacock",
+  "8": "Graphite",
+  "9": "Blueberry",
+  "10": "Basil",
+  "11": "Tomato",
+};
+
+/**
+ * Options given for create_event/update_event; empty or undefined ones are left as they are
+ */
+export interface EventOptions {
+  reminders: string[];
+  colorId: string;
+  visibility?: Visibility;
+  transparency?: Transparency;
+  guestsCanModify?: boolean;
+  guestsCanInviteOthers?: boolean;
+  guestsCanSeeOtherGuests?: boolean;
+}
+
+/**
+ * Parse reminders such as "popup:10", "email:1d" or "30m" (a popup);
+ * "default" uses the calendar's reminders and "none" turns them off
+ */
+export function parseReminders(values: string[]): Reminders {
+  const lower = values.map(value => value.trim().toLowerCase());
+  if (lower.length === 1 && lower[0] === "default") {
+    return { useDefault: true, overrides: [] };
+  }
+  if (lower.length === 1 && lower[0] === "none") {
+    return { useDefault: false, overrides: [] };
+  }
+  if (lower.length > MAX_REMINDERS) {
+    throw new Error(`An event can have at most ${MAX_REMINDERS} reminders`);
+  }
+
+  const overrides = lower.map((value, index) => {
+    const match = /^(?:(popup|email)\s*:\s*)?(\d+)\s*([a-z]*)$/.exec(value);
+    const unit = match ? REMINDER_UNITS[match[3] || "m"] : undefined;
+    if (!match || !unit) {
+      throw new Error(`Invalid reminder "${values[index]}" (expected e.g. popup:10, email:1d, 30m, default or none)`);
+    }
+    const minutes = Number(match[2]) * unit;
+    if (minutes > MAX_REMINDER_MINUTES) {
+      throw new Error(`Reminder "${values[index]}" is more than four weeks before the event`);
+    }
+    return { method: match[1] || "popup", minutes };
+  });
+
+  return { useDefault: false, overrides };
+}
+
+/**
+ * Resolve a color given by ID ("11") or name ("Tomato")
+ */
+export function parseColorId(value: string): string {
+  const text = value.trim().toLowerCase();
+  const id = Object.keys(EVENT_COLOR_NAMES).find(key => key === text || EVENT_COLOR_NAMES[key].toLowerCase() === text);
+  if (!id) {
+    const known = Object.entries(EVENT_COLOR_NAMES).map(([key, name]) => `${key} ${name}`).join(", ");
+    throw new Error(`Unknown event color "${value}" (expected one of: ${known})`);
+  }
+  return id;
+}
+
+/**
+ * Event fields for the options that were given
+ */
+export function buildEventOptions(options: EventOptions): calendar_v3.Schema$Event {
+  const fields: calendar_v3.Schema$Event = {};
+
+  if (options.reminders.length > 0) {
+    fields.reminders = parseReminders(options.reminders);
+  }
+  if (options.colorId) {
+    fields.colorId = parseColorId(options.colorId);
+  }
+  if (options.visibility !== undefined) {
+    fields.visibility = options.visibility;
+  }
+  if (options.transparency !== undefined) {
+    fields.transparency = options.transparency;
+  }
+  if (options.guestsCanModify !== undefined) {
+    fields.guestsCanModify = options.guestsCanModify;
+  }
+  if (options.guestsCanInviteOthers !== undefined) {
+    fields.guestsCanInviteOthers = options.guestsCanInviteOthers;
+  }
+  if (options.guestsCanSeeOtherGuests !== undefined) {
+    fields.guestsCanSeeOtherGuests = options.guestsCanSeeOtherGuests;
+  }
+
+  return fields;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes > 0 && minutes % 10080 === 0) return `${minutes / 10080}w`;
+  if (minutes > 0 && minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes > 0 && minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+/**
+ * Describe an event's reminders, e.g. "popup 10m before, email 1d before"
+ */
+export function describeReminders(reminders: Reminders | null | undefined): string | undefined {
+  if (!reminders) return undefined;
+  if (reminders.useDefault) return "calendar default";
+  if (!reminders.overrides || reminders.overrides.length === 0) return "none";
+  return reminders.overrides
+    .map(reminder => `${reminder.method} ${formatMinutes(reminder.minutes || 0)} before`)
+    .join(", ");
+}
+
+/**
+ * Describe the guest permissions that differ from Google's defaults
+ */
+export function describeGuestPermissions(event: calendar_v3.Schema$Event): string | undefined {
+  const permissions = [
+    event.guestsCanModify ? "can modify the event" : "",
+    event.guestsCanInviteOthers === false ? "can't invite others" : "",
+    event.guestsCanSeeOtherGuests === false ? "can't see the guest list" : "",
+  ].filter(permission => permission !== "");
+  return permissions.length > 0 ? permissions.join(", ") : undefined;
+}
+
+/**
+ * Format the options that differ from the calendar's defaults, one per line
+ */
+export function formatEventOptions(event: calendar_v3.Schema$Event, indent: string = "   "): string {
+  let result = "";
+
+  if (event.colorId) {
+    result += `${indent}Color: ${EVENT_COLOR_NAMES[event.colorId] || "custom"} (${event.colorId})\n`;
+  }
+  if (event.visibility && event.visibility !== "default") {
+    result += `${indent}Visibility: ${event.visibility}\n`;
+  }
+  if (event.transparency === "transparent") {
+    result += `${indent}Show as: free\n`;
+  }
+  if (event.reminders && !event.reminders.useDefault) {
+    result += `${indent}Reminders: ${describeReminders(event.reminders)}\n`;
+  }
+  const permissions = describeGuestPermissions(event);
+  if (permissions) {
+    result += `${indent}Guests: ${permissions}\n`;
+  }
+
+  return result;
+}
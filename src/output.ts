@@ -0,0 +1,269 @@
+/**
+ * Structured tool output
+ * Typed event/calendar objects returned as MCP structuredContent, and the JSON Schemas that describe them
+ */
+
+import { calendar_v3 } from "googleapis";
+
+export interface ToolResult {
+  text: string;
+  data?: { [key: string]: unknown };
+  isError?: boolean;
+}
+
+export interface AttendeeSummary {
+  email: string;
+  displayName?: string;
+  responseStatus?: string;
+  optional?: boolean;
+  organizer?: boolean;
+  self?: boolean;
+  comment?: string;
+}
+
+export interface EventSummary {
+  id: string;
+  summary: string;
+  status?: string;
+  start?: string;
+  end?: string;
+  startUtc?: string;
+  endUtc?: string;
+  allDay: boolean;
+  timeZone?: string;
+  description?: string;
+  location?: string;
+  attendees?: AttendeeSummary[];
+  recurringEventId?: string;
+  recurrence?: string[];
+  conference?: { type: string; uri: string; label?: string; pin?: string }[];
+  htmlLink?: string;
+  etag?: string;
+  colorId?: string;
+  visibility?: string;
+  transparency?: string;
+  reminders?: { useDefault: boolean; overrides: { method: string; minutes: number }[] };
+  guestsCanModify?: boolean;
+  guestsCanInviteOthers?: boolean;
+  guestsCanSeeOtherGuests?: boolean;
+  eventType?: string;
+  autoDeclineMode?: string;
+  declineMessage?: string;
+  chatStatus?: string;
+  workingLocation?: { type: string; label?: string };
+}
+
+export interface CalendarSummary {
+  id: string;
+  summary: string;
+  description?: string;
+  timeZone?: string;
+  primary: boolean;
+  accessRole?: string;
+}
+
+export interface AclRuleSummary {
+  id: string;
+  role: string;
+  scopeType: string;
+  scopeValue?: string;
+}
+
+/**
+ * Drop null values the API uses for missing fields
+ */
+function optional<T>(value: T | null | undefined): T | undefined {
+  return value === null ? undefined : value;
+}
+
+/**
+ * Convert an API event to its structured form
+ */
+export function toEventSummary(event: calendar_v3.Schema$Event): EventSummary {
+  const allDay = !event.start?.dateTime && !!event.start?.date;
+  const declining = event.outOfOfficeProperties || event.focusTimeProperties;
+  const location = event.workingLocationProperties;
+
+  return {
+    id: event.id || "",
+    summary: event.summary || "Untitled Event",
+    status: optional(event.status),
+    start: optional(event.start?.dateTime || event.start?.date),
+    end: optional(event.end?.dateTime || event.end?.date),
+    startUtc: event.start?.dateTime ? new Date(event.start.dateTime).toISOString() : undefined,
+    endUtc: event.end?.dateTime ? new Date(event.end.dateTime).toISOString() : undefined,
+    allDay,
+    timeZone: optional(event.start?.timeZone),
+    description: optional(event.description),
+    location: optional(event.location),
+    attendees: event.attendees?.map(attendee => ({
+      email: attendee.email || "",
+      displayName: optional(attendee.displayName),
+      responseStatus: optional(attendee.responseStatus),
+      optional: optional(attendee.optional),
+      organizer: optional(attendee.organizer),
+      self: optional(attendee.self),
+      comment: optional(attendee.comment),
+    })),
+    recurringEventId: optional(event.recurringEventId),
+    recurrence: optional(event.recurrence),
+    conference: event.conferenceData?.entryPoints?.map(entry => ({
+      type: entry.entryPointType || "",
+      uri: entry.uri || "",
+      label: optional(entry.label),
+      pin: optional(entry.pin || entry.passcode),
+    })),
+    htmlLink: optional(event.htmlLink),
+    etag: optional(event.etag),
+    colorId: optional(event.colorId),
+    visibility: optional(event.visibility),
+    transparency: optional(event.transparency),
+    reminders: event.reminders
+      ? {
+          useDefault: !!event.reminders.useDefault,
+          overrides: (event.reminders.overrides || []).map(reminder => ({
+            method: reminder.method || "",
+            minutes: reminder.minutes || 0,
+          })),
+        }
+      : undefined,
+    guestsCanModify: optional(event.guestsCanModify),
+    guestsCanInviteOthers: optional(event.guestsCanInviteOthers),
+    guestsCanSeeOtherGuests: optional(event.guestsCanSeeOtherGuests),
+    eventType: optional(event.eventType),
+    autoDeclineMode: optional(declining?.autoDeclineMode),
+    declineMessage: optional(declining?.declineMessage),
+    chatStatus: optional(event.focusTimeProperties?.chatStatus),
+    workingLocation: location
+      ? {
+          type: location.type || "",
+          label: optional(location.officeLocation?.label || location.customLocation?.label),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Convert an API calendar list entry to its structured form
+ */
+export function toCalendarSummary(calendar: calendar_v3.Schema$CalendarListEntry): CalendarSummary {
+  return {
+    id: calendar.id || "",
+    summary: calendar.summary || "Untitled Calendar",
+    description: optional(calendar.description),
+    timeZone: optional(calendar.timeZone),
+    primary: !!calendar.primary,
+    accessRole: optional(calendar.accessRole),
+  };
+}
+
+/**
+ * Convert an API ACL rule to its structured form
+ */
+export function toAclRuleSummary(rule: calendar_v3.Schema$AclRule): AclRuleSummary {
+  return {
+    id: rule.id || "",
+    role: rule.role || "none",
+    scopeType: rule.scope?.type || "default",
+    scopeValue: optional(rule.scope?.value),
+  };
+}
+
+// === OUTPUT SCHEMAS ===
+
+type JsonSchema = { [key: string]: unknown };
+
+const STRING: JsonSchema = { type: "string" };
+const BOOLEAN: JsonSchema = { type: "boolean" };
+
+/**
+ * Object schema helper; every property not listed in `required` is optional
+ */
+export function objectSchema(
+  properties: { [key: string]: JsonSchema },
+  required: string[] = []
+): { type: "object"; properties: { [key: string]: JsonSchema }; required?: string[] } {
+  return required.length > 0
+    ? { type: "object", properties, required }
+    : { type: "object", properties };
+}
+
+export function arraySchema(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+export const EVENT_SCHEMA = objectSchema(
+  {
+    id: STRING,
+    summary: STRING,
+    status: STRING,
+    start: { type: "string", description: "dateTime with offset, or YYYY-MM-DD for all-day events" },
+    end: { type: "string", description: "dateTime with offset, or YYYY-MM-DD (exclusive) for all-day events" },
+    startUtc: STRING,
+    endUtc: STRING,
+    allDay: BOOLEAN,
+    timeZone: STRING,
+    description: STRING,
+    location: STRING,
+    attendees: arraySchema(
+      objectSchema(
+        {
+          email: STRING,
+          displayName: STRING,
+          responseStatus: STRING,
+          optional: BOOLEAN,
+          organizer: BOOLEAN,
+          self: BOOLEAN,
+          comment: STRING,
+        },
+        ["email"]
+      )
+    ),
+    recurringEventId: STRING,
+    recurrence: arraySchema(STRING),
+    conference: arraySchema(objectSchema({ type: STRING, uri: STRING, label: STRING, pin: STRING }, ["type", "uri"])),
+    htmlLink: STRING,
+    etag: { type: "string", description: "Version of the event; pass to update_event to detect concurrent edits" },
+    colorId: STRING,
+    visibility: STRING,
+    transparency: { type: "string", description: "opaque (busy) or transparent (free)" },
+    reminders: objectSchema(
+      {
+        useDefault: BOOLEAN,
+        overrides: arraySchema(objectSchema({ method: STRING, minutes: { type: "number" } }, ["method", "minutes"])),
+      },
+      ["useDefault", "overrides"]
+    ),
+    guestsCanModify: BOOLEAN,
+    guestsCanInviteOthers: BOOLEAN,
+    guestsCanSeeOtherGuests: BOOLEAN,
+    eventType: { type: "string", description: "default, outOfOffice, focusTime, workingLocation, birthday or fromGmail" },
+    autoDeclineMode: STRING,
+    declineMessage: STRING,
+    chatStatus: STRING,
+    workingLocation: objectSchema({ type: STRING, label: STRING }, ["type"]),
+  },
+  ["id", "summary", "allDay"]
+);
+
+export const CALENDAR_SCHEMA = objectSchema(
+  {
+    id: STRING,
+    summary: STRING,
+    description: STRING,
+    timeZone: STRING,
+    primary: BOOLEAN,
+    accessRole: STRING,
+  },
+  ["id", "summary", "primary"]
+);
+
+export const ACL_RULE_SCHEMA = objectSchema(
+  {
+    id: STRING,
+    role: STRING,
+    scopeType: STRING,
+    scopeValue: STRING,
+  },
+  ["id", "role", "scopeType"]
+);
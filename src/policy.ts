@@ -0,0 +1,160 @@
+/**
+ * Access policy
+ * Limits which tools the server offers and which calendars they may touch, configured from a file:
+ *
+ *   {
+ *     "readOnly": false,
+ *     "tools": { "deny": ["delete_event"] },
+ *     "calendars": { "allow": ["primary", "team@group.calendar.google.com"] }
+ *   }
+ *
+ * "allow" lists everything permitted (anything else is refused); "deny" refuses just what it lists.
+ * Without a policy file everything is allowed.
+ */
+
+import * as fs from "fs/promises";
+
+export interface Policy {
+  readOnly: boolean;
+  allowTools?: Set<string>;
+  denyTools: Set<string>;
+  allowCalendars?: Set<string>;
+  denyCalendars: Set<string>;
+}
+
+interface RuleList {
+  allow?: string[];
+  deny?: string[];
+}
+
+interface PolicyFile {
+  readOnly?: boolean;
+  tools?: RuleList;
+  calendars?: RuleList;
+}
+
+export const DEFAULT_POLICY: Policy = {
+  readOnly: false,
+  denyTools: new Set(),
+  denyCalendars: new Set(),
+};
+
+const SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+
+// OAuth scopes the server can work with, from broadest to narrowest
+export const CALENDAR_SCOPES = ["calendar", "calendar.events", "calendar.readonly", "calendar.events.readonly"];
+
+function toSet(values: unknown, name: string): Set<string> {
+  if (!Array.isArray(values) || values.some(value => typeof value !== "string")) {
+    throw new Error(`${name} must be a list of strings`);
+  }
+  return new Set(values as string[]);
+}
+
+/**
+ * Load the policy file; a missing file allows everything.
+ * Tool names are checked against `knownTools` so a typo doesn't silently leave a tool enabled.
+ */
+export async function loadPolicy(filePath: string, knownTools: string[]): Promise<Policy> {
+  let file: PolicyFile;
+  try {
+    file = JSON.parse(await fs.readFile(filePath, "utf-8")) as PolicyFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return DEFAULT_POLICY;
+    }
+    throw new Error(`Could not read policy file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const policy: Policy = {
+    readOnly: file.readOnly === true,
+    allowTools: file.tools?.allow ? toSet(file.tools.allow, "tools.allow") : undefined,
+    denyTools: file.tools?.deny ? toSet(file.tools.deny, "tools.deny") : new Set(),
+    allowCalendars: file.calendars?.allow ? toSet(file.calendars.allow, "calendars.allow") : undefined,
+    denyCalendars: file.calendars?.deny ? toSet(file.calendars.deny, "calendars.deny") : new Set(),
+  };
+
+  for (const tool of [...(policy.allowTools || []), ...policy.denyTools]) {
+    if (!knownTools.includes(tool)) {
+      throw new Error(`Unknown tool "${tool}" in policy file ${filePath}`);
+    }
+  }
+
+  return policy;
+}
+
+/**
+ * Check whether the policy lets a tool be offered and called
+ */
+export function isToolAllowed(policy: Policy, tool: string, mutating: boolean): boolean {
+  if (policy.readOnly && mutating) return false;
+  if (policy.allowTools && !policy.allowTools.has(tool)) return false;
+  return !policy.denyTools.has(tool);
+}
+
+/**
+ * Check whether the policy lets tools touch a calendar, given every ID it is known by
+ * (e.g. both "primary" and the primary calendar's address)
+ */
+export function isCalendarAllowed(policy: Policy, ...ids: string[]): boolean {
+  if (ids.some(id => policy.denyCalendars.has(id))) return false;
+  return !policy.allowCalendars || ids.some(id => policy.allowCalendars!.has(id));
+}
+
+/**
+ * Check whether the policy restricts calendars at all
+ */
+export function hasCalendarRules(policy: Policy): boolean {
+  return !!policy.allowCalendars || policy.denyCalendars.size > 0;
+}
+
+/**
+ * Throw unless the policy lets tools touch a calendar, given as named in the call plus any other IDs it is known by
+ */
+export function checkCalendarAllowed(policy: Policy, calendarId: string, ...aliases: string[]): void {
+  if (!isCalendarAllowed(policy, calendarId, ...aliases)) {
+    throw new Error(`Calendar ${calendarId} is not allowed by the access policy`);
+  }
+}
+
+/**
+ * Parse a comma-separated list of scopes ("calendar.readonly" or full URLs) into scope URLs
+ */
+export function parseScopes(value: string): string[] {
+  const scopes = value
+    .split(",")
+    .map(scope => scope.trim().replace(SCOPE_PREFIX, ""))
+    .filter(scope => scope !== "");
+
+  if (scopes.length === 0) {
+    throw new Error("At least one scope is required");
+  }
+  for (const scope of scopes) {
+    if (!CALENDAR_SCOPES.includes(scope)) {
+      throw new Error(`Unsupported scope "${scope}" (expected one of: ${CALENDAR_SCOPES.join(", ")})`);
+    }
+  }
+  return scopes.map(scope => SCOPE_PREFIX + scope);
+}
+
+/**
+ * Check whether a set of scopes can read calendars themselves: the calendar list, settings, colors and free/busy.
+ * The events scopes only reach events.
+ */
+export function canReadCalendars(scopes: string[]): boolean {
+  return scopes.includes(SCOPE_PREFIX + "calendar") || scopes.includes(SCOPE_PREFIX + "calendar.readonly");
+}
+
+/**
+ * Check whether a set of scopes can create, change and share calendars
+ */
+export function canManageCalendars(scopes: string[]): boolean {
+  return scopes.includes(SCOPE_PREFIX + "calendar");
+}
+
+/**
+ * Check whether a set of scopes only allows reading
+ */
+export function isReadOnlyScopes(scopes: string[]): boolean {
+  return scopes.every(scope => scope.endsWith(".readonly"));
+}
@@ -0,0 +1,123 @@
+/**
+ * Dry-run previews
+ * Field-level diffs between two versions of an event, and who a change would notify
+ */
+
+import { calendar_v3 } from "googleapis";
+import { describeGuestPermissions, describeReminders } from "./options.js";
+import { describeEventType } from "./eventtypes.js";
+
+export interface FieldChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+function describeTime(time: calendar_v3.Schema$EventDateTime | null | undefined): string | undefined {
+  if (time?.dateTime) {
+    return time.timeZone ? `${time.dateTime} (${time.timeZone})` : time.dateTime;
+  }
+  return time?.date || undefined;
+}
+
+function describeAttendees(attendees: calendar_v3.Schema$EventAttendee[] | null | undefined): string | undefined {
+  if (!attendees || attendees.length === 0) return undefined;
+  return attendees
+    .map(attendee => {
+      const notes = [attendee.optional ? "optional" : "", attendee.responseStatus || ""].filter(note => note !== "");
+      return notes.length > 0 ? `${attendee.email} (${notes.join(", ")})` : attendee.email;
+    })
+    .join(", ");
+}
+
+// Fields compared in previews, with how each is shown
+const FIELDS: [string, (event: calendar_v3.Schema$Event) => string | null | undefined][] = [
+  ["summary", event => event.summary],
+  ["event type", event => describeEventType(event)],
+  ["start", event => describeTime(event.start)],
+  ["end", event => describeTime(event.end)],
+  ["description", event => event.description],
+  ["location", event => event.location],
+  ["recurrence", event => event.recurrence?.join("; ")],
+  ["attendees", event => describeAttendees(event.attendees)],
+  ["colorId", event => event.colorId],
+  ["visibility", event => event.visibility],
+  ["transparency", event => event.transparency],
+  ["reminders", event => describeReminders(event.reminders)],
+  ["guest permissions", event => describeGuestPermissions(event)],
+];
+
+/**
+ * List the fields that differ between two versions of an event; pass {} as `before` for a new event
+ */
+export function diffEvents(before: calendar_v3.Schema$Event, after: calendar_v3.Schema$Event): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const [field, describe] of FIELDS) {
+    const old = describe(before) || undefined;
+    const updated = describe(after) || undefined;
+    if (old !== updated) {
+      changes.push({ field, before: old, after: updated });
+    }
+  }
+  return changes;
+}
+
+// Calendar fields compared in previews
+const CALENDAR_FIELDS: (keyof calendar_v3.Schema$Calendar)[] = ["summary", "description", "location", "timeZone"];
+
+/**
+ * List the settings that differ between two versions of a calendar; pass {} as `before` for a new one
+ */
+export function diffCalendars(before: calendar_v3.Schema$Calendar, after: calendar_v3.Schema$Calendar): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of CALENDAR_FIELDS) {
+    const old = (before[field] as string | null | undefined) || undefined;
+    const updated = (after[field] as string | null | undefined) || undefined;
+    if (old !== updated) {
+      changes.push({ field, before: old, after: updated });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Format changes as "field: before → after" lines
+ */
+export function formatChanges(changes: FieldChange[], indent: string = "   "): string {
+  if (changes.length === 0) {
+    return `${indent}(no changes)\n`;
+  }
+  let result = "";
+  for (const change of changes) {
+    result += `${indent}${change.field}: ${change.before ?? "(none)"} → ${change.after ?? "(none)"}\n`;
+  }
+  return result;
+}
+
+function domainOf(email: string | null | undefined): string {
+  return (email || "").split("@")[1]?.toLowerCase() || "";
+}
+
+/**
+ * Describe who would be emailed about a change, given sendUpdates and the guests involved
+ */
+export function describeNotifications(
+  sendUpdates: string,
+  attendees: calendar_v3.Schema$EventAttendee[],
+  selfEmail: string = ""
+): string {
+  if (sendUpdates === "none") {
+    return "No emails will be sent (sendUpdates: none)";
+  }
+
+  let recipients = attendees.filter(attendee => !attendee.self && !attendee.resource && attendee.email);
+  if (sendUpdates === "externalOnly" && selfEmail) {
+    recipients = recipients.filter(attendee => domainOf(attendee.email) !== domainOf(selfEmail));
+  }
+
+  const emails = [...new Set(recipients.map(attendee => attendee.email!.toLowerCase()))];
+  if (emails.length === 0) {
+    return `No guests to email (sendUpdates: ${sendUpdates})`;
+  }
+  return `${emails.length} guest(s) will be emailed (sendUpdates: ${sendUpdates}): ${emails.join(", ")}`;
+}
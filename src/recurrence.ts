@@ -0,0 +1,103 @@
+/**
+ * Recurrence helpers
+ * Work on the RRULE/EXRULE/RDATE/EXDATE lines stored in an event's `recurrence` array
+ */
+
+import { formatICalDateTime, parseDateTimeInZone } from "./timezone.js";
+
+export type RecurrenceScope = "instance" | "following" | "all";
+
+export const RECURRENCE_SCOPES: RecurrenceScope[] = ["instance", "following", "all"];
+
+const RULE_PREFIXES = ["RRULE:", "EXRULE:", "RDATE", "EXDATE"];
+
+/**
+ * Build a recurrence array from user input.
+ * `recurrence` holds one rule per entry; a bare "FREQ=..." rule is treated as an RRULE.
+ * `exceptDates` lists occurrences to skip, in the event's time zone.
+ */
+export function buildRecurrence(recurrence: string[], exceptDates: string[], timeZone: string): string[] {
+  const rules: string[] = [];
+
+  for (const rawLine of recurrence) {
+    const line = rawLine.trim();
+    if (line === "") continue;
+
+    if (line.toUpperCase().startsWith("FREQ=")) {
+      rules.push(`RRULE:${line}`);
+    } else if (RULE_PREFIXES.some(prefix => line.toUpperCase().startsWith(prefix))) {
+      rules.push(line);
+    } else {
+      throw new Error(`Invalid recurrence rule: "${line}" (expected e.g. RRULE:FREQ=WEEKLY;BYDAY=MO)`);
+    }
+  }
+
+  for (const rawDate of exceptDates) {
+    const value = rawDate.trim();
+    if (value === "") continue;
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      rules.push(`EXDATE;VALUE=DATE:${value.replace(/-/g, "")}`);
+    } else {
+      const date = parseDateTimeInZone(value, timeZone, "exceptDates");
+      rules.push(`EXDATE;TZID=${timeZone}:${formatICalDateTime(date, timeZone)}`);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Rewrite every RRULE, dropping the parts named in `remove` and appending `add`
+ */
+function rewriteRRules(rules: string[], remove: string[], add: string): string[] {
+  return rules.map(rule => {
+    if (!rule.toUpperCase().startsWith("RRULE:")) return rule;
+
+    const parts = rule
+      .slice("RRULE:".length)
+      .split(";")
+      .filter(part => !remove.includes(part.split("=")[0].toUpperCase()));
+    parts.push(add);
+    return `RRULE:${parts.join(";")}`;
+  });
+}
+
+/**
+ * End every RRULE at the given UNTIL value (YYYYMMDD or YYYYMMDDTHHMMSSZ)
+ */
+export function withUntil(rules: string[], until: string): string[] {
+  return rewriteRRules(rules, ["UNTIL", "COUNT"], `UNTIL=${until}`);
+}
+
+/**
+ * Limit every RRULE to the given number of occurrences
+ */
+export function withCount(rules: string[], count: number): string[] {
+  return rewriteRRules(rules, ["UNTIL", "COUNT"], `COUNT=${count}`);
+}
+
+/**
+ * Read the COUNT of the first RRULE, if it has one
+ */
+export function getCount(rules: string[]): number | null {
+  for (const rule of rules) {
+    const match = /^RRULE:.*\bCOUNT=(\d+)/i.exec(rule);
+    if (match) return Number(match[1]);
+  }
+  return null;
+}
+
+/**
+ * UNTIL value that ends a series just before the occurrence starting at `start`
+ */
+export function getUntilBefore(start: { date?: string | null; dateTime?: string | null }): string {
+  if (start.dateTime) {
+    const until = new Date(new Date(start.dateTime).getTime() - 1000);
+    return until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  }
+
+  const day = new Date(`${start.date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10).replace(/-/g, "");
+}
@@ -0,0 +1,300 @@
+/**
+ * Tool input schemas
+ * Each argument is declared once as a field: the field produces the JSON Schema advertised in
+ * tools/list and parses what clients send, coercing "10" to 10, "true" to true and
+ * "a@x.com, b@x.com" to a list, and reporting every problem at once
+ */
+
+export type JsonSchema = { [key: string]: unknown };
+export type JsonObject = { [key: string]: unknown };
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(`Invalid arguments: ${issues.map(issue => `${issue.field}: ${issue.message}`).join("; ")}`);
+    this.name = "ValidationError";
+  }
+}
+
+export interface Field<T> {
+  schema: JsonSchema;
+  required: boolean;
+  // Value used when the argument is missing (or empty) and not required
+  fallback: T;
+  // Throws with a short message when the value can't be used
+  parse(value: unknown, name: string): T;
+}
+
+export interface InputSchema<T> {
+  jsonSchema: {
+    type: "object";
+    properties: { [key: string]: JsonSchema };
+    required?: string[];
+    additionalProperties: false;
+  };
+  parse(args: unknown): T;
+}
+
+type FieldValues<F> = { [K in keyof F]: F[K] extends Field<infer T> ? T : never };
+
+interface StringOptions {
+  required?: boolean;
+  default?: string;
+  // Extra check on non-empty values; throws to reject them
+  validate?: (value: string, name: string) => void;
+}
+
+/**
+ * String argument; a missing optional one is "" unless another default is given
+ */
+export function string(description: string, options: StringOptions = {}): Field<string> {
+  return {
+    schema: { type: "string", description },
+    required: !!options.required,
+    fallback: options.default ?? "",
+    parse(value, name) {
+      if (typeof value !== "string") {
+        throw new Error(`must be a string (got ${typeof value})`);
+      }
+      options.validate?.(value, name);
+      return value;
+    },
+  };
+}
+
+/**
+ * String argument restricted to a set of values
+ */
+export function enumeration<T extends string>(
+  description: string,
+  values: readonly T[],
+  options: { default: T } | { required: true }
+): Field<T> {
+  return {
+    schema: { type: "string", enum: values, description },
+    required: "required" in options,
+    fallback: "default" in options ? options.default : values[0],
+    parse(value) {
+      if (typeof value !== "string" || !values.includes(value.trim() as T)) {
+        throw new Error(`must be one of: ${values.join(", ")} (got ${JSON.stringify(value)})`);
+      }
+      return value.trim() as T;
+    },
+  };
+}
+
+/**
+ * Whole-number argument; numeric strings are accepted
+ */
+export function integer(
+  description: string,
+  options: { default: number; min?: number; max?: number }
+): Field<number> {
+  return {
+    schema: {
+      type: "integer",
+      description,
+      ...(options.min !== undefined ? { minimum: options.min } : {}),
+      ...(options.max !== undefined ? { maximum: options.max } : {}),
+    },
+    required: false,
+    fallback: options.default,
+    parse(value) {
+      const number = typeof value === "string" && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+      if (typeof number !== "number" || !Number.isInteger(number)) {
+        throw new Error(`must be a whole number (got ${JSON.stringify(value)})`);
+      }
+      if (options.min !== undefined && number < options.min) {
+        throw new Error(`must be at least ${options.min} (got ${number})`);
+      }
+      if (options.max !== undefined && number > options.max) {
+        throw new Error(`must be at most ${options.max} (got ${number})`);
+      }
+      return number;
+    },
+  };
+}
+
+/**
+ * Boolean argument; "true" and "false" are accepted
+ */
+export function boolean(description: string, defaultValue: boolean = false): Field<boolean> {
+  return {
+    schema: { type: "boolean", description },
+    required: false,
+    fallback: defaultValue,
+    parse(value) {
+      if (typeof value === "boolean") return value;
+      const text = typeof value === "string" ? value.trim().toLowerCase() : "";
+      if (text === "true" || text === "false") return text === "true";
+      throw new Error(`must be true or false (got ${JSON.stringify(value)})`);
+    },
+  };
+}
+
+/**
+ * List of strings, sent as an array or as one string split on `separator` (default: commas).
+ * Entries are trimmed and blank ones dropped; `values` restricts what they may be.
+ */
+export function list(
+  description: string,
+  options: { required?: boolean; default?: string[]; separator?: string | RegExp; values?: readonly string[] } = {}
+): Field<string[]> {
+  return {
+    schema: {
+      type: "array",
+      items: options.values ? { type: "string", enum: options.values } : { type: "string" },
+      description,
+    },
+    required: !!options.required,
+    fallback: options.default ?? [],
+    parse(value) {
+      const items = typeof value === "string" ? value.split(options.separator ?? ",") : value;
+      if (!Array.isArray(items) || items.some(item => typeof item !== "string")) {
+        throw new Error("must be a list of strings");
+      }
+      const result = (items as string[]).map(item => item.trim()).filter(item => item !== "");
+      if (options.required && result.length === 0) {
+        throw new Error("must not be empty");
+      }
+      const unknown = options.values ? result.filter(item => !options.values!.includes(item)) : [];
+      if (unknown.length > 0) {
+        throw new Error(`may only contain: ${options.values!.join(", ")} (got ${unknown.map(item => JSON.stringify(item)).join(", ")})`);
+      }
+      return result;
+    },
+  };
+}
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decode an object or array that a client sent as a JSON string
+ */
+function parseJsonText(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error("must be valid JSON");
+  }
+}
+
+/**
+ * Object argument with free-form keys, sent as an object or a JSON string; its tool checks the keys
+ */
+export function object(description: string): Field<JsonObject> {
+  return {
+    schema: { type: "object", description },
+    required: false,
+    fallback: {},
+    parse(value) {
+      const result = parseJsonText(value);
+      if (!isJsonObject(result)) {
+        throw new Error("must be an object");
+      }
+      return result;
+    },
+  };
+}
+
+/**
+ * List of free-form objects, sent as an array or a JSON string of one
+ */
+export function objectList(description: string, options: { max?: number } = {}): Field<JsonObject[]> {
+  return {
+    schema: {
+      type: "array",
+      items: { type: "object" },
+      description,
+      ...(options.max !== undefined ? { maxItems: options.max } : {}),
+    },
+    required: false,
+    fallback: [],
+    parse(value) {
+      const items = parseJsonText(value);
+      if (!Array.isArray(items) || !items.every(isJsonObject)) {
+        throw new Error("must be a list of objects");
+      }
+      if (options.max !== undefined && items.length > options.max) {
+        throw new Error(`must have at most ${options.max} entries (got ${items.length})`);
+      }
+      return items;
+    },
+  };
+}
+
+/**
+ * Make a field optional with no default, so leaving it out can be told apart from any value
+ */
+export function optional<T>(field: Field<T>): Field<T | undefined> {
+  return { ...field, required: false, fallback: undefined };
+}
+
+/**
+ * Object schema for a tool's arguments. Missing, null and "" arguments take their field's
+ * fallback; required ones missing and unknown ones present are reported as issues.
+ */
+export function input<F extends { [key: string]: Field<unknown> }>(fields: F): InputSchema<FieldValues<F>> {
+  const properties: { [key: string]: JsonSchema } = {};
+  const required: string[] = [];
+  for (const [name, field] of Object.entries(fields)) {
+    properties[name] = field.schema;
+    if (field.required) required.push(name);
+  }
+
+  return {
+    jsonSchema: {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false,
+    },
+    parse(args) {
+      const values = (args ?? {}) as { [key: string]: unknown };
+      if (typeof values !== "object" || Array.isArray(values)) {
+        throw new ValidationError([{ field: "(arguments)", message: "must be an object" }]);
+      }
+
+      const issues: ValidationIssue[] = [];
+      const result: { [key: string]: unknown } = {};
+
+      for (const name of Object.keys(values)) {
+        if (!(name in fields)) {
+          issues.push({ field: name, message: `unknown argument (expected one of: ${Object.keys(fields).join(", ")})` });
+        }
+      }
+
+      for (const [name, field] of Object.entries(fields)) {
+        const value = values[name];
+        if (value === undefined || value === null || value === "") {
+          if (field.required) {
+            issues.push({ field: name, message: "is required" });
+          }
+          result[name] = field.fallback;
+          continue;
+        }
+        try {
+          result[name] = field.parse(value, name);
+        } catch (error) {
+          // Shared parsers often start their messages with the argument name; the issue already names it
+          const message = error instanceof Error ? error.message : String(error);
+          issues.push({ field: name, message: message.startsWith(`${name} `) || message.startsWith(`${name}: `)
+            ? message.slice(name.length).replace(/^:?\s+/, "")
+            : message });
+        }
+      }
+
+      if (issues.length > 0) {
+        throw new ValidationError(issues);
+      }
+      return result as FieldValues<F>;
+    },
+  };
+}
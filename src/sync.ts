@@ -0,0 +1,143 @@
+/**
+ * Incremental sync
+ * Keeps a per-calendar syncToken and reports what changed since the last sync
+ */
+
+import { calendar_v3 } from "googleapis";
+import * as fs from "fs/promises";
+import { writeFileAtomic } from "./files.js";
+
+export interface SyncEntry {
+  syncToken: string;
+  syncedAt: string;
+}
+
+export type SyncTokens = Map<string, SyncEntry>;
+
+export interface CalendarChanges {
+  added: calendar_v3.Schema$Event[];
+  changed: calendar_v3.Schema$Event[];
+  cancelled: calendar_v3.Schema$Event[];
+  // True when there was no usable token, so this call only established a baseline
+  baseline: boolean;
+  // True when the stored token had expired (HTTP 410) and a new baseline was taken
+  expired: boolean;
+  since?: string;
+  baselineCount: number;
+}
+
+/**
+ * Load stored sync tokens; a missing file means nothing has been synced yet
+ */
+export async function loadSyncTokens(filePath: string): Promise<SyncTokens> {
+  try {
+    const content = await fs.readFile(filePath, "utf-8");
+    return new Map(Object.entries(JSON.parse(content) as Record<string, SyncEntry>));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return new Map();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Persist sync tokens atomically
+ */
+export async function saveSyncTokens(filePath: string, tokens: SyncTokens): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(Object.fromEntries(tokens), null, 2));
+}
+
+/**
+ * Check for HTTP 410, which the API returns when a sync token has expired
+ */
+function isGone(error: unknown): boolean {
+  const e = error as { code?: unknown; response?: { status?: number } } | null;
+  return e?.response?.status === 410 || Number(e?.code) === 410;
+}
+
+/**
+ * Page through events.list, returning every item and the final nextSyncToken
+ */
+async function listAllPages(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  syncToken?: string
+): Promise<{ items: calendar_v3.Schema$Event[]; nextSyncToken: string }> {
+  const items: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+
+  while (true) {
+    const response = await calendar.events.list({
+      calendarId,
+      syncToken,
+      pageToken,
+      maxResults: 250,
+      // Deleted events are only reported on incremental syncs
+      showDeleted: !!syncToken,
+    });
+    items.push(...(response.data.items || []));
+
+    if (response.data.nextPageToken) {
+      pageToken = response.data.nextPageToken;
+      continue;
+    }
+    if (!response.data.nextSyncToken) {
+      throw new Error(`Calendar ${calendarId} did not return a sync token`);
+    }
+    return { items, nextSyncToken: response.data.nextSyncToken };
+  }
+}
+
+/**
+ * Sync one calendar against its stored token, updating `tokens` in place.
+ * `key` names the token entry when one calendar is synced under several accounts.
+ */
+export async function syncCalendar(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  tokens: SyncTokens,
+  key: string = calendarId
+): Promise<CalendarChanges> {
+  const entry = tokens.get(key);
+  const syncedAt = new Date().toISOString();
+  const changes: CalendarChanges = {
+    added: [],
+    changed: [],
+    cancelled: [],
+    baseline: false,
+    expired: false,
+    since: entry?.syncedAt,
+    baselineCount: 0,
+  };
+
+  if (entry) {
+    try {
+      const { items, nextSyncToken } = await listAllPages(calendar, calendarId, entry.syncToken);
+      const since = new Date(entry.syncedAt).getTime();
+
+      for (const event of items) {
+        if (event.status === "cancelled") {
+          changes.cancelled.push(event);
+        } else if (event.created && new Date(event.created).getTime() >= since) {
+          changes.added.push(event);
+        } else {
+          changes.changed.push(event);
+        }
+      }
+
+      tokens.set(key, { syncToken: nextSyncToken, syncedAt });
+      return changes;
+    } catch (error) {
+      if (!isGone(error)) throw error;
+      // The token expired; fall through to a full sync
+      changes.expired = true;
+    }
+  }
+
+  const { items, nextSyncToken } = await listAllPages(calendar, calendarId);
+  tokens.set(key, { syncToken: nextSyncToken, syncedAt });
+  changes.baseline = true;
+  changes.baselineCount = items.length;
+  return changes;
+}
@@ -0,0 +1,238 @@
+/**
+ * Time zone helpers
+ * Wall-clock <-> UTC conversions built on Intl, so no extra tz database is needed
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      weekday: "short",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function pad(value: number, length: number = 2): string {
+  return String(Math.abs(value)).padStart(length, "0");
+}
+
+/**
+ * Check whether a string is a valid IANA time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a time zone name, throwing a readable error if it is unknown
+ */
+export function validateTimeZone(timeZone: string): string {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone} (expected an IANA name such as "America/Sao_Paulo")`);
+  }
+  return timeZone;
+}
+
+/**
+ * Get the wall-clock components of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the corresponding instant.
+ * Times skipped by a DST jump resolve forward; repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(
+  local: Omit<ZonedParts, "weekday" | "second"> & { second?: number },
+  timeZone: string
+): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second || 0);
+  // The offsets in force a day either side cover both sides of any DST change that day
+  const offsets = [asUtc - 86400000, asUtc, asUtc + 86400000].map(time => getTimeZoneOffset(new Date(time), timeZone));
+  const candidates = [...new Set(offsets)].map(offset => asUtc - offset * 60000);
+
+  const matches = candidates.filter(candidate => {
+    const p = getZonedParts(new Date(candidate), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) === asUtc;
+  });
+
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches));
+  }
+  return new Date(Math.max(...candidates));
+}
+
+/**
+ * Format an instant as an ISO 8601 string with the time zone's offset, e.g. 2025-11-27T09:00:00-03:00
+ */
+export function toZonedISOString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset < 0 ? "-" : "+";
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+         `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+}
+
+/**
+ * Format an instant as a short human-readable wall-clock time, e.g. "Thu 2025-11-27 09:00"
+ */
+export function formatZoned(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${WEEKDAYS[p.weekday]} ${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+/**
+ * Parse an "HH:MM" time of day into minutes after midnight
+ */
+export function parseTimeOfDay(value: string, name: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`${name} must be in HH:MM format`);
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes !== 0)) {
+    throw new Error(`${name} must be a valid time of day`);
+  }
+  return hours * 60 + minutes;
+}
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/i;
+const OFFSET_DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+// Date and time fields at the start of an ISO 8601 value, with or without an offset after them
+const DATE_TIME_FIELDS = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/i;
+
+/**
+ * Check that the date and time an ISO 8601 value names exist; Date would roll
+ * "2025-02-30" over to March 2 instead of rejecting it
+ */
+function hasValidFields(value: string): boolean {
+  const match = DATE_TIME_FIELDS.exec(value);
+  if (!match) return true;
+
+  const [year, month, day, hour, minute, second] = match.slice(1).map(field => Number(field || 0));
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth &&
+         hour <= 23 && minute <= 59 && second <= 59;
+}
+
+/**
+ * Parse a date/time argument into an instant.
+ * Strings without a UTC offset (e.g. "2025-11-27T09:00") are read as wall-clock time in the given zone;
+ * strings with "Z" or an explicit offset keep their absolute meaning. Anything else is rejected.
+ */
+export function parseDateTimeInZone(value: string, timeZone: string, name: string): Date {
+  if (!hasValidFields(value.trim())) {
+    throw new Error(`${name} is not a valid date/time: "${value}"`);
+  }
+
+  const match = LOCAL_DATE_TIME.exec(value.trim());
+  if (match) {
+    return zonedTimeToUtc(
+      {
+        year: Number(match[1]),
+        month: Number(match[2]),
+        day: Number(match[3]),
+        hour: Number(match[4] || 0),
+        minute: Number(match[5] || 0),
+        second: Number(match[6] || 0),
+      },
+      timeZone
+    );
+  }
+
+  // Anything else must carry its own offset; Date would read it in the host's zone otherwise
+  const date = new Date(value.trim());
+  if (!OFFSET_DATE_TIME.test(value.trim()) || isNaN(date.getTime())) {
+    throw new Error(`${name} is not a valid date/time: "${value}"`);
+  }
+  return date;
+}
+
+/**
+ * Format an instant as an iCalendar local date-time in a zone, e.g. 20251127T090000
+ */
+export function formatICalDateTime(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/**
+ * Wall-clock distance between two instants in a zone, in milliseconds.
+ * Unlike plain subtraction this ignores DST changes between the two.
+ */
+export function wallClockDifference(from: Date, to: Date, timeZone: string): number {
+  return (to.getTime() + getTimeZoneOffset(to, timeZone) * 60000) -
+         (from.getTime() + getTimeZoneOffset(from, timeZone) * 60000);
+}
+
+/**
+ * Move an instant by a wall-clock amount in a zone, so 09:00 + 1h stays 10:00 across DST changes
+ */
+export function shiftWallClock(date: Date, deltaMs: number, timeZone: string): Date {
+  const local = new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * 60000 + deltaMs);
+  return zonedTimeToUtc(
+    {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: local.getUTCHours(),
+      minute: local.getUTCMinutes(),
+      second: local.getUTCSeconds(),
+    },
+    timeZone
+  );
+}
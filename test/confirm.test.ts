@@ -0,0 +1,48 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+
+import { CONFIRM_TOKEN_TTL_MINUTES, claimConfirmToken, issueConfirmToken, releaseConfirmToken } from "../src/confirm.js";
+
+const ARGS = { eventId: "abc", calendarId: "primary", sendUpdates: "none" };
+
+describe("confirm tokens", () => {
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it("confirm the previewed call whatever the argument order and preview-only arguments", () => {
+    const token = issueConfirmToken("delete_event", { ...ARGS, dryRun: true, format: "json" });
+    assert.doesNotThrow(() =>
+      claimConfirmToken(token, "delete_event", { sendUpdates: "none", calendarId: "primary", eventId: "abc", confirmToken: token })
+    );
+  });
+
+  it("don't confirm a different call", () => {
+    const token = issueConfirmToken("delete_event", ARGS);
+    assert.throws(() => claimConfirmToken(token, "delete_event", { ...ARGS, eventId: "xyz" }), /issued for a different delete_event call/);
+    assert.throws(() => claimConfirmToken(token, "update_event", ARGS), /issued for a different update_event call/);
+    assert.throws(() => claimConfirmToken("not-a-token", "delete_event", ARGS), /unknown or has expired/);
+  });
+
+  it("are used up once the change succeeds", () => {
+    const token = issueConfirmToken("delete_event", ARGS);
+    claimConfirmToken(token, "delete_event", ARGS);
+    releaseConfirmToken(token, true);
+    assert.throws(() => claimConfirmToken(token, "delete_event", ARGS), /unknown or has expired/);
+  });
+
+  it("can be used again after a failed change, but not by two calls at once", () => {
+    const token = issueConfirmToken("delete_event", ARGS);
+    claimConfirmToken(token, "delete_event", ARGS);
+    assert.throws(() => claimConfirmToken(token, "delete_event", ARGS), /already being used/);
+    releaseConfirmToken(token, false);
+    assert.doesNotThrow(() => claimConfirmToken(token, "delete_event", ARGS));
+  });
+
+  it("expire", () => {
+    mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    const token = issueConfirmToken("delete_event", ARGS);
+    mock.timers.tick(CONFIRM_TOKEN_TTL_MINUTES * 60000);
+    assert.throws(() => claimConfirmToken(token, "delete_event", ARGS), /unknown or has expired/);
+  });
+});
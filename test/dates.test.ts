@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { addDaysToDate, allDayEnd, daysBetween, describeAllDay, parseDateExpression } from "../src/dates.js";
+import { toZonedISOString } from "../src/timezone.js";
+
+const ZONE = "Europe/Berlin";
+// Wednesday 2025-03-05, 13:00 in Berlin
+const NOW = new Date("2025-03-05T12:00:00Z");
+
+function resolve(value: string, reference: Date = NOW): string {
+  return toZonedISOString(parseDateExpression(value, ZONE, "start", reference).date, ZONE);
+}
+
+describe("parseDateExpression", () => {
+  it("reads ISO 8601 values as absolute, in the zone when they have no offset", () => {
+    const resolved = parseDateExpression("2025-03-10T09:00", ZONE, "start", NOW);
+    assert.equal(toZonedISOString(resolved.date, ZONE), "2025-03-10T09:00:00+01:00");
+    assert.equal(resolved.relative, false);
+    assert.equal(resolved.dateOnly, false);
+    assert.equal(parseDateExpression("2025-03-10", ZONE, "start", NOW).dateOnly, true);
+    assert.equal(resolve("2025-03-10T09:00:00Z"), "2025-03-10T10:00:00+01:00");
+  });
+
+  it("resolves days relative to today", () => {
+    assert.equal(resolve("today"), "2025-03-05T00:00:00+01:00");
+    assert.equal(resolve("tomorrow 3pm"), "2025-03-06T15:00:00+01:00");
+    assert.equal(resolve("yesterday at 9:30"), "2025-03-04T09:30:00+01:00");
+    assert.equal(resolve("noon"), "2025-03-05T12:00:00+01:00");
+  });
+
+  it("resolves weekdays to the coming one, or the first after today with next", () => {
+    assert.equal(resolve("wednesday"), "2025-03-05T00:00:00+01:00");
+    assert.equal(resolve("next wednesday"), "2025-03-12T00:00:00+01:00");
+    assert.equal(resolve("friday 14:00"), "2025-03-07T14:00:00+01:00");
+    assert.equal(resolve("last monday"), "2025-03-03T00:00:00+01:00");
+  });
+
+  it("resolves month names, rolling over to next year once the date has passed", () => {
+    assert.equal(resolve("Dec 5 at 10:30"), "2025-12-05T10:30:00+01:00");
+    assert.equal(resolve("5 December 2026"), "2026-12-05T00:00:00+01:00");
+    assert.equal(resolve("Feb 1"), "2026-02-01T00:00:00+01:00");
+  });
+
+  it("applies offsets, keeping the wall-clock time for whole days across DST", () => {
+    assert.equal(resolve("in 2 hours"), "2025-03-05T15:00:00+01:00");
+    assert.equal(resolve("+1h30m"), "2025-03-05T14:30:00+01:00");
+    assert.equal(resolve("3 days ago"), "2025-03-02T13:00:00+01:00");
+    assert.equal(resolve("+4w"), "2025-04-02T13:00:00+02:00");
+  });
+
+  it("resolves an end offset from the start it is given", () => {
+    const start = parseDateExpression("2025-03-10T09:00", ZONE, "start", NOW);
+    assert.equal(resolve("+45m", start.date), "2025-03-10T09:45:00+01:00");
+  });
+
+  it("rejects ambiguous, bare-hour and unknown expressions", () => {
+    assert.throws(() => resolve("03/04/2025"), /ambiguous/);
+    assert.throws(() => resolve("tomorrow 3"), /bare hour/);
+    assert.throws(() => resolve("13pm"), /invalid time of day/);
+    assert.throws(() => resolve("Feb 30 2025"), /could not understand/);
+    assert.throws(() => resolve("whenever"), /could not understand/);
+    assert.throws(() => resolve("  "), /start is empty/);
+  });
+});
+
+describe("all-day dates", () => {
+  it("adds and counts days across month and year ends", () => {
+    assert.equal(addDaysToDate("2024-02-28", 1), "2024-02-29");
+    assert.equal(addDaysToDate("2025-12-31", 1), "2026-01-01");
+    assert.equal(daysBetween("2025-03-29", "2025-04-01"), 3);
+  });
+
+  it("turns an end into the exclusive end date the API expects", () => {
+    assert.equal(allDayEnd("2025-03-10", undefined, ZONE), "2025-03-11");
+    const lastDay = parseDateExpression("2025-03-12", ZONE, "end", NOW);
+    assert.equal(allDayEnd("2025-03-10", lastDay, ZONE), "2025-03-13");
+    const length = parseDateExpression("+3d", ZONE, "end", parseDateExpression("2025-03-10", ZONE, "start").date);
+    assert.equal(allDayEnd("2025-03-10", length, ZONE), "2025-03-13");
+  });
+
+  it("rejects ends with a time of day or before the start", () => {
+    const timed = parseDateExpression("2025-03-12T10:00", ZONE, "end", NOW);
+    assert.throws(() => allDayEnd("2025-03-10", timed, ZONE), /has a time of day/);
+    const before = parseDateExpression("2025-03-08", ZONE, "end", NOW);
+    assert.throws(() => allDayEnd("2025-03-10", before, ZONE), /must not be before the start/);
+  });
+
+  it("describes single and multi-day events by their last day", () => {
+    assert.equal(describeAllDay("2025-03-10", "2025-03-11"), "All day, 2025-03-10");
+    assert.equal(describeAllDay("2025-03-10", "2025-03-13"), "All day, 2025-03-10 to 2025-03-12 (3 days)");
+  });
+});
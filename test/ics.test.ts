@@ -0,0 +1,174 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { parseICalendar, renderCalendar } from "../src/ics.js";
+
+function calendar(...lines: string[]): string {
+  return ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n") + "\r\n";
+}
+
+function event(...lines: string[]): string[] {
+  return ["BEGIN:VEVENT", "UID:event-1@example.com", ...lines, "END:VEVENT"];
+}
+
+const RANGE = { timeZone: "Europe/Berlin", from: new Date("2025-03-01T00:00:00Z"), to: new Date("2025-04-30T00:00:00Z") };
+
+describe("renderCalendar", () => {
+  it("escapes text and folds long lines at 75 octets without splitting characters", () => {
+    const description = "Agenda; budget, hiring\\planning\n" + "Überprüfung der Jahresplanung ".repeat(6);
+    const text = renderCalendar(
+      [{
+        id: "abc",
+        summary: "Review, planning; Q2",
+        description,
+        start: { dateTime: "2025-03-10T09:00:00+01:00", timeZone: "Europe/Berlin" },
+        end: { dateTime: "2025-03-10T10:00:00+01:00", timeZone: "Europe/Berlin" },
+      }],
+      RANGE
+    );
+
+    const lines = text.split("\r\n");
+    assert.ok(lines.every(line => Buffer.byteLength(line) <= 75));
+    assert.ok(lines.includes("SUMMARY:Review\\, planning\\; Q2"));
+    assert.ok(lines.includes("DTSTART;TZID=Europe/Berlin:20250310T090000"));
+    assert.ok(lines.includes("BEGIN:VTIMEZONE"));
+    const unfolded = text.replace(/\r\n /g, "");
+    assert.ok(unfolded.includes("DESCRIPTION:Agenda\\; budget\\, hiring\\\\planning\\nÜberprüfung"));
+  });
+
+  it("turns cancelled occurrences into EXDATEs of their series", () => {
+    const text = renderCalendar(
+      [
+        {
+          id: "series",
+          summary: "Standup",
+          start: { dateTime: "2025-03-10T09:00:00+01:00", timeZone: "Europe/Berlin" },
+          end: { dateTime: "2025-03-10T09:15:00+01:00", timeZone: "Europe/Berlin" },
+          recurrence: ["RRULE:FREQ=DAILY;COUNT=5"],
+        },
+        {
+          id: "series_20250312T080000Z",
+          status: "cancelled",
+          recurringEventId: "series",
+          originalStartTime: { dateTime: "2025-03-12T09:00:00+01:00", timeZone: "Europe/Berlin" },
+        },
+      ],
+      RANGE
+    );
+    assert.match(text, /\r\nEXDATE;TZID=Europe\/Berlin:20250312T090000\r\n/);
+    assert.equal(text.match(/BEGIN:VEVENT/g)?.length, 1);
+  });
+
+  it("round-trips through parseICalendar", () => {
+    const original = {
+      id: "abc",
+      iCalUID: "abc@google.com",
+      summary: "Offsite, day 1; \"kickoff\"",
+      description: "Line one\nLine two with a backslash \\ and ümlauts ".repeat(4),
+      location: "Room 4, Building B",
+      start: { dateTime: "2025-03-30T01:30:00+01:00", timeZone: "Europe/Berlin" },
+      end: { dateTime: "2025-03-30T03:30:00+02:00", timeZone: "Europe/Berlin" },
+      attendees: [{ email: "ana@example.com", displayName: "Ana, PM", optional: true, responseStatus: "accepted" }],
+      reminders: { useDefault: false, overrides: [{ method: "popup", minutes: 0 }, { method: "email", minutes: 30 }] },
+    };
+    const { events, warnings } = parseICalendar(renderCalendar([original], RANGE), "UTC");
+
+    assert.deepEqual(warnings, []);
+    assert.equal(events.length, 1);
+    const parsed = events[0].event;
+    assert.equal(parsed.iCalUID, original.iCalUID);
+    assert.equal(parsed.summary, original.summary);
+    assert.equal(parsed.description, original.description);
+    assert.equal(parsed.location, original.location);
+    assert.deepEqual(parsed.start, original.start);
+    assert.deepEqual(parsed.end, original.end);
+    assert.equal(parsed.attendees?.[0].email, "ana@example.com");
+    assert.equal(parsed.attendees?.[0].displayName, "Ana, PM");
+    assert.equal(parsed.attendees?.[0].optional, true);
+    assert.deepEqual(parsed.reminders, original.reminders);
+  });
+});
+
+describe("parseICalendar", () => {
+  it("unfolds continuation lines and unescapes text", () => {
+    const { events } = parseICalendar(
+      calendar(...event(
+        "DTSTART:20250310T090000Z",
+        "DTEND:20250310T100000Z",
+        "SUMMARY:Budget\\, hiring\\; and",
+        "  more",
+        "DESCRIPTION:first\\nsecond\\\\third"
+      )),
+      "UTC"
+    );
+    assert.equal(events[0].event.summary, "Budget, hiring; and more");
+    assert.equal(events[0].event.description, "first\nsecond\\third");
+  });
+
+  it("resolves TZIDs through X-LIC-LOCATION and prefixed IDs, and warns about unknown ones", () => {
+    const { events, warnings } = parseICalendar(
+      calendar(
+        "BEGIN:VTIMEZONE",
+        "TZID:W. Europe Standard Time",
+        "X-LIC-LOCATION:Europe/Berlin",
+        "END:VTIMEZONE",
+        ...event("DTSTART;TZID=W. Europe Standard Time:20250310T090000", "DTEND;TZID=/mozilla.org/20050126_1/America/New_York:20250310T090000"),
+        "BEGIN:VEVENT",
+        "UID:event-2@example.com",
+        "DTSTART;TZID=Mars Standard Time:20250310T090000",
+        "DURATION:PT45M",
+        "END:VEVENT"
+      ),
+      "Asia/Tokyo"
+    );
+
+    assert.deepEqual(events[0].event.start, { dateTime: "2025-03-10T09:00:00+01:00", timeZone: "Europe/Berlin" });
+    assert.deepEqual(events[0].event.end, { dateTime: "2025-03-10T09:00:00-04:00", timeZone: "America/New_York" });
+    assert.deepEqual(events[1].event.start, { dateTime: "2025-03-10T09:00:00+09:00", timeZone: "Asia/Tokyo" });
+    assert.deepEqual(events[1].event.end, { dateTime: "2025-03-10T09:45:00+09:00", timeZone: "Asia/Tokyo" });
+    assert.deepEqual(warnings, ['Unknown time zone "Mars Standard Time", read as Asia/Tokyo']);
+  });
+
+  it("gives all-day events without an end one day, and reads RECURRENCE-ID overrides", () => {
+    const { events } = parseICalendar(
+      calendar(
+        ...event("DTSTART;VALUE=DATE:20250310", "RRULE:FREQ=WEEKLY;COUNT=3"),
+        ...event("DTSTART;VALUE=DATE:20250318", "RECURRENCE-ID;VALUE=DATE:20250317", "STATUS:CANCELLED")
+      ),
+      "UTC"
+    );
+    assert.deepEqual(events[0].event.end, { date: "2025-03-11" });
+    assert.deepEqual(events[0].event.recurrence, ["RRULE:FREQ=WEEKLY;COUNT=3"]);
+    assert.deepEqual(events[1].recurrenceId, { date: "2025-03-17" });
+    assert.equal(events[1].event.status, "cancelled");
+  });
+
+  it("keeps alarms at or before the start and reports the ones it skips", () => {
+    const alarm = (trigger: string) => ["BEGIN:VALARM", "ACTION:DISPLAY", trigger, "END:VALARM"];
+    const { events, warnings } = parseICalendar(
+      calendar(...event(
+        "DTSTART:20250310T090000Z",
+        ...alarm("TRIGGER:PT0S"),
+        ...alarm("TRIGGER;RELATED=START:-P1DT2H"),
+        ...alarm("TRIGGER:PT10M"),
+        ...alarm("TRIGGER;RELATED=END:-PT5M"),
+        ...alarm("TRIGGER;VALUE=DATE-TIME:20250309T090000Z")
+      )),
+      "UTC"
+    );
+    assert.deepEqual(events[0].event.reminders?.overrides, [
+      { method: "popup", minutes: 0 },
+      { method: "popup", minutes: 1560 },
+    ]);
+    assert.deepEqual(warnings, [
+      "Alarms after the start of an event were skipped",
+      "Alarms at a fixed date or relative to the end of an event were skipped",
+    ]);
+  });
+
+  it("rejects malformed data", () => {
+    assert.throws(() => parseICalendar("BEGIN:VEVENT\r\nEND:VEVENT\r\n", "UTC"), /no BEGIN:VCALENDAR/);
+    assert.throws(() => parseICalendar(calendar("BEGIN:VEVENT", "UID:x"), "UTC"), /Unexpected END:VCALENDAR/);
+    assert.throws(() => parseICalendar(calendar(...event("SUMMARY:No start")), "UTC"), /has no DTSTART/);
+  });
+});
@@ -0,0 +1,120 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  canManageCalendars,
+  canReadCalendars,
+  checkCalendarAllowed,
+  DEFAULT_POLICY,
+  hasCalendarRules,
+  isCalendarAllowed,
+  isReadOnlyScopes,
+  isToolAllowed,
+  loadPolicy,
+  parseScopes,
+} from "../src/policy.js";
+
+const TOOLS = ["list_events", "create_event", "delete_event"];
+
+describe("loadPolicy", () => {
+  let dir = "";
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "policy-test-"));
+  });
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function load(contents: string) {
+    const file = path.join(dir, "policy.json");
+    await fs.writeFile(file, contents);
+    return loadPolicy(file, TOOLS);
+  }
+
+  it("allows everything without a policy file", async () => {
+    assert.equal(await loadPolicy(path.join(dir, "missing.json"), TOOLS), DEFAULT_POLICY);
+  });
+
+  it("reads tool and calendar rules", async () => {
+    const policy = await load(JSON.stringify({
+      readOnly: true,
+      tools: { deny: ["delete_event"] },
+      calendars: { allow: ["primary", "team@group.calendar.google.com"] },
+    }));
+    assert.equal(policy.readOnly, true);
+    assert.deepEqual([...policy.denyTools], ["delete_event"]);
+    assert.deepEqual([...policy.allowCalendars!], ["primary", "team@group.calendar.google.com"]);
+  });
+
+  it("rejects unknown tools, malformed rules and invalid JSON", async () => {
+    await assert.rejects(load(JSON.stringify({ tools: { deny: ["delete_events"] } })), /Unknown tool "delete_events"/);
+    await assert.rejects(load(JSON.stringify({ calendars: { deny: "primary" } })), /calendars.deny must be a list of strings/);
+    await assert.rejects(load("{ readOnly: true }"), /Could not read policy file/);
+  });
+});
+
+describe("isToolAllowed", () => {
+  it("applies read-only mode, then allow and deny lists", () => {
+    const policy = { ...DEFAULT_POLICY, allowTools: new Set(["list_events", "delete_event"]), denyTools: new Set(["delete_event"]) };
+    assert.equal(isToolAllowed(policy, "list_events", false), true);
+    assert.equal(isToolAllowed(policy, "create_event", true), false);
+    assert.equal(isToolAllowed(policy, "delete_event", true), false);
+    assert.equal(isToolAllowed({ ...DEFAULT_POLICY, readOnly: true }, "create_event", true), false);
+    assert.equal(isToolAllowed(DEFAULT_POLICY, "create_event", true), true);
+  });
+});
+
+describe("calendar rules", () => {
+  const policy = {
+    ...DEFAULT_POLICY,
+    allowCalendars: new Set(["primary"]),
+    denyCalendars: new Set(["private@group.calendar.google.com"]),
+  };
+
+  it("matches a calendar by any of its IDs", () => {
+    assert.equal(isCalendarAllowed(policy, "me@example.com"), false);
+    assert.equal(isCalendarAllowed(policy, "me@example.com", "primary"), true);
+    assert.equal(isCalendarAllowed(policy, "primary", "private@group.calendar.google.com"), false);
+    assert.equal(isCalendarAllowed(DEFAULT_POLICY, "anything"), true);
+  });
+
+  it("names the calendar as given when refusing it", () => {
+    assert.throws(() => checkCalendarAllowed(policy, "team@group.calendar.google.com"),
+      /Calendar team@group.calendar.google.com is not allowed by the access policy/);
+    assert.doesNotThrow(() => checkCalendarAllowed(policy, "me@example.com", "primary"));
+  });
+
+  it("tells whether calendars are restricted at all", () => {
+    assert.equal(hasCalendarRules(policy), true);
+    assert.equal(hasCalendarRules(DEFAULT_POLICY), false);
+  });
+});
+
+describe("scopes", () => {
+  it("accepts short names and full URLs", () => {
+    assert.deepEqual(parseScopes("calendar.readonly, https://www.googleapis.com/auth/calendar.events"), [
+      "https://www.googleapis.com/auth/calendar.readonly",
+      "https://www.googleapis.com/auth/calendar.events",
+    ]);
+    assert.throws(() => parseScopes("calendar.settings"), /Unsupported scope "calendar.settings"/);
+    assert.throws(() => parseScopes(" , "), /At least one scope is required/);
+  });
+
+  it("tells what the scopes can reach", () => {
+    const events = parseScopes("calendar.events");
+    const readonly = parseScopes("calendar.readonly");
+    const full = parseScopes("calendar");
+
+    assert.equal(canReadCalendars(events), false);
+    assert.equal(canReadCalendars(readonly), true);
+    assert.equal(canManageCalendars(readonly), false);
+    assert.equal(canManageCalendars(full), true);
+    assert.equal(isReadOnlyScopes(parseScopes("calendar.readonly,calendar.events.readonly")), true);
+    assert.equal(isReadOnlyScopes(parseScopes("calendar.readonly,calendar.events")), false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import { buildRecurrence, getCount, getUntilBefore, withCount, withUntil } from "../src/recurrence.js";
+
+describe("buildRecurrence", () => {
+  it("prefixes bare rules and keeps full ones", () => {
+    assert.deepEqual(
+      buildRecurrence(["FREQ=WEEKLY;BYDAY=MO", "RDATE;VALUE=DATE:20250310", " "], [], "UTC"),
+      ["RRULE:FREQ=WEEKLY;BYDAY=MO", "RDATE;VALUE=DATE:20250310"]
+    );
+  });
+
+  it("turns skipped dates into EXDATEs in the event's zone", () => {
+    assert.deepEqual(
+      buildRecurrence(["FREQ=DAILY"], ["2025-03-12", "2025-03-13T09:00", "2025-03-14T08:00:00Z"], "Europe/Berlin"),
+      [
+        "RRULE:FREQ=DAILY",
+        "EXDATE;VALUE=DATE:20250312",
+        "EXDATE;TZID=Europe/Berlin:20250313T090000",
+        "EXDATE;TZID=Europe/Berlin:20250314T090000",
+      ]
+    );
+  });
+
+  it("rejects lines that aren't rules", () => {
+    assert.throws(() => buildRecurrence(["every monday"], [], "UTC"), /Invalid recurrence rule: "every monday"/);
+    assert.throws(() => buildRecurrence([], ["next week"], "UTC"), /exceptDates is not a valid date\/time/);
+  });
+});
+
+describe("splitting a series", () => {
+  const rules = ["RRULE:FREQ=WEEKLY;COUNT=10;BYDAY=MO", "EXDATE;VALUE=DATE:20250317"];
+
+  it("reads the COUNT of the first RRULE", () => {
+    assert.equal(getCount(rules), 10);
+    assert.equal(getCount(["RRULE:FREQ=DAILY;UNTIL=20250401"]), null);
+  });
+
+  it("replaces COUNT or UNTIL on every RRULE and leaves other lines alone", () => {
+    assert.deepEqual(withUntil(rules, "20250323T235959Z"), [
+      "RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250323T235959Z",
+      "EXDATE;VALUE=DATE:20250317",
+    ]);
+    assert.deepEqual(withCount(["RRULE:FREQ=DAILY;UNTIL=20250401"], 3), ["RRULE:FREQ=DAILY;COUNT=3"]);
+  });
+
+  it("ends the first half just before the occurrence it is split at", () => {
+    assert.equal(getUntilBefore({ dateTime: "2025-03-24T09:00:00+01:00" }), "20250324T075959Z");
+    assert.equal(getUntilBefore({ date: "2025-03-01" }), "20250228");
+  });
+});
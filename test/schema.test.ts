@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  boolean,
+  enumeration,
+  input,
+  integer,
+  list,
+  object,
+  objectList,
+  optional,
+  string,
+  ValidationError,
+} from "../src/schema.js";
+
+const schema = input({
+  eventId: string("Event ID", { required: true }),
+  calendarId: string("Calendar ID", { default: "primary" }),
+  maxResults: integer("Maximum results", { default: 10, min: 1, max: 250 }),
+  dryRun: boolean("Preview only"),
+  scope: enumeration("Scope", ["instance", "following", "all"], { default: "instance" }),
+  attendees: list("Emails"),
+  shared: object("Shared arguments"),
+  items: objectList("Items", { max: 2 }),
+  colorId: optional(string("Color")),
+});
+
+function issuesOf(args: unknown): { field: string; message: string }[] {
+  try {
+    schema.parse(args);
+  } catch (error) {
+    assert.ok(error instanceof ValidationError);
+    return error.issues;
+  }
+  assert.fail("expected a ValidationError");
+}
+
+describe("input", () => {
+  it("fills in fallbacks for missing, null and empty arguments", () => {
+    assert.deepEqual(schema.parse({ eventId: "abc", calendarId: "", maxResults: null }), {
+      eventId: "abc",
+      calendarId: "primary",
+      maxResults: 10,
+      dryRun: false,
+      scope: "instance",
+      attendees: [],
+      shared: {},
+      items: [],
+      colorId: undefined,
+    });
+  });
+
+  it("coerces the string forms clients often send", () => {
+    const args = schema.parse({
+      eventId: "abc",
+      maxResults: " 25 ",
+      dryRun: "TRUE",
+      scope: " all ",
+      attendees: "a@example.com, ,b@example.com",
+      shared: "{\"timeZone\":\"UTC\"}",
+      items: "[{\"summary\":\"x\"}]",
+    });
+    assert.equal(args.maxResults, 25);
+    assert.equal(args.dryRun, true);
+    assert.equal(args.scope, "all");
+    assert.deepEqual(args.attendees, ["a@example.com", "b@example.com"]);
+    assert.deepEqual(args.shared, { timeZone: "UTC" });
+    assert.deepEqual(args.items, [{ summary: "x" }]);
+  });
+
+  it("reports every problem at once", () => {
+    assert.deepEqual(issuesOf({ maxResults: 0, dryRun: "yes", scope: "some", items: [{}, {}, {}], colour: "5" }), [
+      { field: "colour", message: "unknown argument (expected one of: eventId, calendarId, maxResults, dryRun, scope, attendees, shared, items, colorId)" },
+      { field: "eventId", message: "is required" },
+      { field: "maxResults", message: "must be at least 1 (got 0)" },
+      { field: "dryRun", message: "must be true or false (got \"yes\")" },
+      { field: "scope", message: "must be one of: instance, following, all (got \"some\")" },
+      { field: "items", message: "must have at most 2 entries (got 3)" },
+    ]);
+  });
+
+  it("rejects values of the wrong shape", () => {
+    assert.deepEqual(issuesOf({ eventId: 5, maxResults: 2.5, attendees: [1], shared: "[1]", items: "{" }), [
+      { field: "eventId", message: "must be a string (got number)" },
+      { field: "maxResults", message: "must be a whole number (got 2.5)" },
+      { field: "attendees", message: "must be a list of strings" },
+      { field: "shared", message: "must be an object" },
+      { field: "items", message: "must be valid JSON" },
+    ]);
+    assert.deepEqual(issuesOf([]), [{ field: "(arguments)", message: "must be an object" }]);
+  });
+
+  it("drops the argument name that shared validators put in front of their messages", () => {
+    const named = input({
+      start: string("Start", {
+        validate: (value, name) => {
+          throw new Error(`${name} is not a valid date/time: "${value}"`);
+        },
+      }),
+    });
+    assert.throws(() => named.parse({ start: "soon" }), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.deepEqual(error.issues, [{ field: "start", message: "is not a valid date/time: \"soon\"" }]);
+      return true;
+    });
+  });
+
+  it("advertises required fields, enums and limits in its JSON Schema", () => {
+    assert.deepEqual(schema.jsonSchema.required, ["eventId"]);
+    assert.equal(schema.jsonSchema.additionalProperties, false);
+    assert.deepEqual(schema.jsonSchema.properties.scope.enum, ["instance", "following", "all"]);
+    assert.equal(schema.jsonSchema.properties.maxResults.maximum, 250);
+    assert.equal(schema.jsonSchema.properties.items.maxItems, 2);
+  });
+});
+
+describe("list", () => {
+  it("restricts entries to the allowed values", () => {
+    const field = list("Fields", { values: ["summary", "location"] });
+    assert.deepEqual(field.parse(["summary"], "clear"), ["summary"]);
+    assert.throws(() => field.parse("summary,colour", "clear"), /may only contain: summary, location \(got "colour"\)/);
+  });
+
+  it("splits on a custom separator and rejects empty required lists", () => {
+    const field = list("Rules", { required: true, separator: "\n" });
+    assert.deepEqual(field.parse("RRULE:FREQ=DAILY\nEXDATE:20250101", "recurrence"), ["RRULE:FREQ=DAILY", "EXDATE:20250101"]);
+    assert.throws(() => field.parse([" "], "recurrence"), /must not be empty/);
+  });
+});
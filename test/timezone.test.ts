@@ -0,0 +1,113 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  getTimeZoneOffset,
+  parseDateTimeInZone,
+  parseTimeOfDay,
+  shiftWallClock,
+  toZonedISOString,
+  validateTimeZone,
+  wallClockDifference,
+  zonedTimeToUtc,
+} from "../src/timezone.js";
+
+describe("zonedTimeToUtc", () => {
+  it("converts wall-clock time using the zone's offset on that day", () => {
+    assert.equal(
+      zonedTimeToUtc({ year: 2025, month: 1, day: 15, hour: 9, minute: 0 }, "Europe/Berlin").toISOString(),
+      "2025-01-15T08:00:00.000Z"
+    );
+    assert.equal(
+      zonedTimeToUtc({ year: 2025, month: 7, day: 15, hour: 9, minute: 0 }, "Europe/Berlin").toISOString(),
+      "2025-07-15T07:00:00.000Z"
+    );
+  });
+
+  it("moves times skipped by the spring-forward gap forward", () => {
+    // 02:30 doesn't exist in Berlin on 2025-03-30; clocks jump from 02:00 to 03:00
+    const date = zonedTimeToUtc({ year: 2025, month: 3, day: 30, hour: 2, minute: 30 }, "Europe/Berlin");
+    assert.equal(toZonedISOString(date, "Europe/Berlin"), "2025-03-30T03:30:00+02:00");
+  });
+
+  it("reads times repeated by the fall-back overlap as their first occurrence", () => {
+    // 02:30 happens twice in Berlin on 2025-10-26, first in CEST then in CET
+    const date = zonedTimeToUtc({ year: 2025, month: 10, day: 26, hour: 2, minute: 30 }, "Europe/Berlin");
+    assert.equal(date.toISOString(), "2025-10-26T00:30:00.000Z");
+  });
+});
+
+describe("getTimeZoneOffset", () => {
+  it("reports half-hour and negative offsets", () => {
+    assert.equal(getTimeZoneOffset(new Date("2025-01-15T12:00:00Z"), "Asia/Kolkata"), 330);
+    assert.equal(getTimeZoneOffset(new Date("2025-01-15T12:00:00Z"), "America/Sao_Paulo"), -180);
+  });
+});
+
+describe("parseDateTimeInZone", () => {
+  it("reads values without an offset in the given zone", () => {
+    assert.equal(
+      parseDateTimeInZone("2025-11-27T09:00", "America/New_York", "start").toISOString(),
+      "2025-11-27T14:00:00.000Z"
+    );
+    assert.equal(
+      parseDateTimeInZone("2025-11-27", "America/New_York", "start").toISOString(),
+      "2025-11-27T05:00:00.000Z"
+    );
+  });
+
+  it("accepts a lowercase t or a space as the separator", () => {
+    const expected = "2025-03-10T08:00:00.000Z";
+    assert.equal(parseDateTimeInZone("2025-03-10t09:00", "Europe/Berlin", "start").toISOString(), expected);
+    assert.equal(parseDateTimeInZone("2025-03-10 09:00", "Europe/Berlin", "start").toISOString(), expected);
+  });
+
+  it("keeps the absolute meaning of values with an offset", () => {
+    assert.equal(
+      parseDateTimeInZone("2025-03-10T09:00:00+01:00", "Asia/Tokyo", "start").toISOString(),
+      "2025-03-10T08:00:00.000Z"
+    );
+    assert.equal(
+      parseDateTimeInZone("2025-03-10t09:00z", "Asia/Tokyo", "start").toISOString(),
+      "2025-03-10T09:00:00.000Z"
+    );
+  });
+
+  it("rejects dates that don't exist", () => {
+    assert.throws(() => parseDateTimeInZone("2025-02-30", "UTC", "start"), /start is not a valid date\/time/);
+    assert.throws(() => parseDateTimeInZone("2025-03-10T24:30", "UTC", "start"), /not a valid date\/time/);
+  });
+
+  it("rejects anything else instead of reading it in the host's zone", () => {
+    assert.throws(() => parseDateTimeInZone("March 10 2025 09:00", "UTC", "start"), /not a valid date\/time/);
+    assert.throws(() => parseDateTimeInZone("2025-03-10T09:00 EST", "UTC", "start"), /not a valid date\/time/);
+  });
+});
+
+describe("shiftWallClock", () => {
+  it("keeps the wall-clock time across a DST change", () => {
+    const before = new Date("2025-03-29T09:00:00+01:00");
+    const shifted = shiftWallClock(before, 24 * 3600000, "Europe/Berlin");
+    assert.equal(toZonedISOString(shifted, "Europe/Berlin"), "2025-03-30T09:00:00+02:00");
+    assert.equal(wallClockDifference(before, shifted, "Europe/Berlin"), 24 * 3600000);
+  });
+});
+
+describe("parseTimeOfDay", () => {
+  it("parses HH:MM into minutes after midnight", () => {
+    assert.equal(parseTimeOfDay("09:30", "workingHoursStart"), 570);
+    assert.equal(parseTimeOfDay("24:00", "workingHoursEnd"), 1440);
+  });
+
+  it("rejects times that don't exist", () => {
+    assert.throws(() => parseTimeOfDay("24:30", "workingHoursEnd"), /workingHoursEnd must be a valid time of day/);
+    assert.throws(() => parseTimeOfDay("9am", "workingHoursStart"), /workingHoursStart/);
+  });
+});
+
+describe("validateTimeZone", () => {
+  it("accepts IANA names and rejects others", () => {
+    assert.equal(validateTimeZone("America/Sao_Paulo"), "America/Sao_Paulo");
+    assert.throws(() => validateTimeZone("Mars/Olympus"), /Unknown time zone: Mars\/Olympus/);
+  });
+});